@@ -26,7 +26,32 @@ interface Window {
   api: {
     openFile: () => Promise<import('../src/shared/types').OpenFileResult | null>
     onFileOpened: (callback: (payload: import('../src/shared/types').OpenFileResult) => void) => () => void
+    openFolder: () => Promise<import('../src/shared/types').FolderScan | null>
+    onFolderOpened: (callback: (payload: import('../src/shared/types').FolderScan) => void) => () => void
+    openFolderFile: (filePath: string) => Promise<import('../src/shared/types').OpenFileResult>
+    listEncodings: () => Promise<import('../src/shared/types').EncodingOption[]>
+    reopenWithEncoding: (filePath: string, encoding: string) => Promise<import('../src/shared/types').OpenFileResult>
+    onReopenEncodingRequested: (callback: () => void) => () => void
+    watchFile: (filePath: string | null, contentHash: string | null) => Promise<void>
+    onFileChanged: (callback: (payload: import('../src/shared/types').OpenFileResult) => void) => () => void
+    takeLaunchFile: () => Promise<import('../src/shared/types').LaunchOpen | null>
+    onLaunchOpened: (callback: (payload: import('../src/shared/types').LaunchOpen) => void) => () => void
+    openDroppedFile: (file: File) => Promise<void>
+    readClipboardText: () => Promise<string>
+    listRecentFiles: () => Promise<import('../src/shared/types').RecentFile[]>
+    openRecentFile: (filePath: string) => Promise<import('../src/shared/types').OpenFileResult>
+    removeRecentFile: (filePath: string) => Promise<void>
+    openGitRepo: () => Promise<import('../src/shared/types').GitRepo | null>
+    openGitDiff: (repoPath: string, commit: string | null) => Promise<import('../src/shared/types').OpenFileResult>
     saveAttempt: (attempt: import('../src/shared/types').Attempt) => Promise<void>
     listAttempts: () => Promise<import('../src/shared/types').Attempt[]>
+    loadRecentFiles: () => Promise<import('../src/shared/types').OpenFileResult[]>
+    recordFileProgress: (update: import('../src/shared/types').FileProgressUpdate) => Promise<import('../src/shared/types').FileProgress | null>
+    listFileProgress: () => Promise<import('../src/shared/types').FileProgress[]>
+    getFileProgress: (filePath: string, contentHash: string) => Promise<import('../src/shared/types').FileProgress | null>
+    openProgressFile: (filePath: string) => Promise<import('../src/shared/types').OpenFileResult | null>
+    saveSession: (session: import('../src/shared/types').SavedSession) => Promise<void>
+    clearSession: () => Promise<void>
+    loadSession: () => Promise<import('../src/shared/types').ResumableSession | null>
   }
 }
@@ -0,0 +1,89 @@
+import path from 'node:path'
+import fs from 'node:fs/promises'
+import type { FolderFile, FolderScan } from '../src/shared/types'
+import { looksBinary } from '../src/core/binarySniff'
+import { isIgnored, parseGitignore, type IgnoreRule } from '../src/core/gitignore'
+import { LANGUAGES } from '../src/core/languages'
+
+/** Every language in the registry plus formats without comment syntax. */
+export const TEXT_FILE_EXTENSIONS = [
+  ...LANGUAGES.flatMap((language) => language.extensions),
+  'txt',
+  'md',
+  'json',
+  'bat',
+  'log',
+]
+
+const TEXT_EXTENSION_SET = new Set(TEXT_FILE_EXTENSIONS)
+const MAX_SCAN_FILES = 5_000
+/** Larger files are rarely hand-written code and would make the scan slow. */
+const MAX_SCAN_FILE_BYTES = 2 * 1024 * 1024
+
+function countLines(buffer: Uint8Array): number {
+  if (buffer.length === 0) return 0
+  let lines = 0
+  for (let i = 0; i < buffer.length; i += 1) {
+    if (buffer[i] === 0x0A) lines += 1
+  }
+  return buffer[buffer.length - 1] === 0x0A ? lines : lines + 1
+}
+
+async function readGitignore(dirPath: string, relativeDir: string): Promise<IgnoreRule[]> {
+  try {
+    return parseGitignore(await fs.readFile(path.join(dirPath, '.gitignore'), 'utf8'), relativeDir)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Lists practisable files under `rootPath`: known text extensions only, honouring `.gitignore`
+ * files (nested ones included), skipping `.git`, symlinks, binaries and very large files.
+ */
+export async function scanFolder(rootPath: string): Promise<FolderScan> {
+  const files: FolderFile[] = []
+  let truncated = false
+  let skippedBinary = 0
+
+  const walk = async (dirPath: string, relativeDir: string, inherited: IgnoreRule[]) => {
+    const rules = [...inherited, ...await readGitignore(dirPath, relativeDir)]
+    const entries = await fs.readdir(dirPath, { withFileTypes: true })
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      if (files.length >= MAX_SCAN_FILES) {
+        truncated = true
+        return
+      }
+      if (entry.isSymbolicLink() || entry.name === '.git') continue
+
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+      const fullPath = path.join(dirPath, entry.name)
+      if (entry.isDirectory()) {
+        if (!isIgnored(rules, relativePath, true)) await walk(fullPath, relativePath, rules)
+        continue
+      }
+      if (!entry.isFile() || isIgnored(rules, relativePath, false)) continue
+
+      const ext = path.extname(entry.name).slice(1).toLowerCase()
+      if (!TEXT_EXTENSION_SET.has(ext)) continue
+
+      try {
+        const stat = await fs.stat(fullPath)
+        if (stat.size > MAX_SCAN_FILE_BYTES) continue
+        const buffer = await fs.readFile(fullPath)
+        if (looksBinary(buffer)) {
+          skippedBinary += 1
+          continue
+        }
+        files.push({ filePath: fullPath, relativePath, lineCount: countLines(buffer), sizeBytes: stat.size })
+      } catch {
+        // Unreadable (permissions, vanished mid-scan); leave it out.
+      }
+    }
+  }
+
+  await walk(rootPath, '', [])
+  return { rootPath, rootName: path.basename(rootPath), files, truncated, skippedBinary }
+}
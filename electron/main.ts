@@ -1,14 +1,68 @@
-import { app, BrowserWindow, Menu, dialog, ipcMain } from 'electron'
+import { app, BrowserWindow, Menu, clipboard, dialog, ipcMain } from 'electron'
+import { execFile } from 'node:child_process'
+import { createHash } from 'node:crypto'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
+import { unwatchFile, watchFile, type Stats } from 'node:fs'
 import fs from 'node:fs/promises'
+import { promisify } from 'node:util'
 import chardet from 'chardet'
 import iconv from 'iconv-lite'
-import type { Attempt, OpenFileResult } from '../src/shared/types'
+import type { Attempt, EncodingOption, FileProgressUpdate, FolderScan, GitCommit, GitRepo, LaunchOpen, OpenFileResult, RecentFile, ResumableSession, SavedSession } from '../src/shared/types'
+import { looksBinary, sniffUtf16 } from '../src/core/binarySniff'
+import { parseDiffHunks } from '../src/core/gitDiff'
+import { type LaunchRequest, parseLaunchArgs } from '../src/core/launchArgs'
 import { createJsonAttemptRepo } from '../src/storage/jsonAttemptRepo'
+import { createJsonFileProgressStore } from '../src/storage/jsonFileProgressStore'
+import { createJsonRecentFilesStore } from '../src/storage/jsonRecentFilesStore'
+import { createJsonSessionStore } from '../src/storage/jsonSessionStore'
+import { TEXT_FILE_EXTENSIONS, scanFolder } from './folderScan'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const APP_TITLE = 'CodeTyping Trainer'
+const RECENT_FILE_LIMIT = 5
+const RECENT_MENU_LIMIT = 10
+const GIT_LOG_LIMIT = 50
+const GIT_MAX_OUTPUT_BYTES = 32 * 1024 * 1024
+/** `git hash-object -t tree /dev/null` per object format: what a repo without commits diffs against. */
+const GIT_EMPTY_TREE: Record<string, string> = {
+  sha1: '4b825dc642cb6eb9a060e54bf8d69288fbee4904',
+  sha256: '6ef19b41225c5369f1c104d45d8d85efa9b057b53b14b4b9b939dd74decc5321',
+}
+/** Offered by “Reopen with Encoding…”, as iconv-lite names; filtered by `iconv.encodingExists()` at runtime. */
+const REOPEN_ENCODINGS: EncodingOption[] = [
+  { value: 'utf8', label: 'Unicode (UTF-8)' },
+  { value: 'utf16le', label: 'Unicode (UTF-16 LE)' },
+  { value: 'utf16be', label: 'Unicode (UTF-16 BE)' },
+  { value: 'gb18030', label: 'Chinese Simplified (GB18030 / GBK)' },
+  { value: 'big5', label: 'Chinese Traditional (Big5)' },
+  { value: 'shift_jis', label: 'Japanese (Shift_JIS)' },
+  { value: 'euc-jp', label: 'Japanese (EUC-JP)' },
+  { value: 'euc-kr', label: 'Korean (EUC-KR)' },
+  { value: 'windows-874', label: 'Thai (Windows-874)' },
+  { value: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { value: 'windows-1252', label: 'Western (Windows-1252)' },
+  { value: 'windows-1253', label: 'Greek (Windows-1253)' },
+  { value: 'windows-1254', label: 'Turkish (Windows-1254)' },
+  { value: 'windows-1255', label: 'Hebrew (Windows-1255)' },
+  { value: 'windows-1256', label: 'Arabic (Windows-1256)' },
+  { value: 'windows-1257', label: 'Baltic (Windows-1257)' },
+  { value: 'windows-1258', label: 'Vietnamese (Windows-1258)' },
+  { value: 'iso-8859-1', label: 'Western (ISO 8859-1)' },
+  { value: 'iso-8859-2', label: 'Central European (ISO 8859-2)' },
+  { value: 'iso-8859-5', label: 'Cyrillic (ISO 8859-5)' },
+  { value: 'iso-8859-15', label: 'Western (ISO 8859-15)' },
+  { value: 'koi8-r', label: 'Cyrillic (KOI8-R)' },
+  { value: 'koi8-u', label: 'Cyrillic (KOI8-U)' },
+  { value: 'cp866', label: 'Cyrillic (DOS 866)' },
+  { value: 'cp437', label: 'US (DOS 437)' },
+  { value: 'macintosh', label: 'Western (Mac Roman)' },
+]
+/** Stat polling survives editors' atomic saves (write + rename), which break `fs.watch`. */
+const FILE_WATCH_INTERVAL_MS = 1000
+
+const execFileAsync = promisify(execFile)
 
 // The built directory structure
 //
@@ -30,7 +84,22 @@ process.env.VITE_PUBLIC = VITE_DEV_SERVER_URL ? path.join(process.env.APP_ROOT,
 
 let win: BrowserWindow | null
 let attemptRepo: ReturnType<typeof createJsonAttemptRepo> | null = null
+let sessionStore: ReturnType<typeof createJsonSessionStore> | null = null
+let fileProgressStore: ReturnType<typeof createJsonFileProgressStore> | null = null
+let recentFilesStore: ReturnType<typeof createJsonRecentFilesStore> | null = null
+let recentFilesForMenu: RecentFile[] = []
+/** Folders the user picked this run; the renderer may open files under them. */
+const openedFolders = new Set<string>()
+/** Repository roots the user picked this run; the renderer may read diffs from them. */
+const openedRepos = new Set<string>()
 let rendererHealthDialogOpen = false
+/** Every path main has read for the renderer this run; only these may be watched or re-decoded. */
+const readFilePaths = new Set<string>()
+/** Encodings picked with “Reopen with Encoding…” this run; later reads of the path (watcher, resume) keep them. */
+const encodingOverrides = new Map<string, string>()
+let watchedFile: { filePath: string; contentHash: string; sender: Electron.WebContents } | null = null
+/** The file this instance was launched with, until the renderer takes it. */
+let launchRequest: LaunchRequest | null = null
 
 async function promptReloadWindow(message: string, detail: string, buttons: string[]) {
   if (!win || rendererHealthDialogOpen) return
@@ -78,12 +147,21 @@ function normalizeDetectedEncoding(raw: string | null | undefined): string | nul
   return enc
 }
 
-function decodeTextFile(buffer: Uint8Array): { content: string; encoding: string } {
+function decodeTextFile(buffer: Uint8Array, encodingOverride?: string): { content: string; encoding: string } {
+  if (encodingOverride) {
+    let content = iconv.decode(Buffer.from(buffer), encodingOverride)
+    if (content.length > 0 && content.charCodeAt(0) === 0xFEFF) content = content.slice(1)
+    return { content, encoding: encodingOverride }
+  }
+
   if (hasUtf8Bom(buffer)) {
     const content = Buffer.from(buffer.subarray(3)).toString('utf8')
     return { content, encoding: 'utf8-bom' }
   }
 
+  const utf16 = sniffUtf16(buffer)
+  if (utf16) return { content: iconv.decode(Buffer.from(buffer), utf16), encoding: utf16 }
+
   const detected = normalizeDetectedEncoding(chardet.detect(Buffer.from(buffer)))
   const encoding = detected && iconv.encodingExists(detected) ? detected : 'utf8'
   let content = iconv.decode(Buffer.from(buffer), encoding)
@@ -98,34 +176,7 @@ async function openFileFromDialog(parentWindow?: BrowserWindow): Promise<OpenFil
     filters: [
       {
         name: 'Text / Code',
-        extensions: [
-          'txt',
-          'md',
-          'c',
-          'cpp',
-          'h',
-          'hpp',
-          'java',
-          'py',
-          'js',
-          'ts',
-          'tsx',
-          'json',
-          'html',
-          'css',
-          'rs',
-          'go',
-          'php',
-          'rb',
-          'sh',
-          'bat',
-          'ps1',
-          'yaml',
-          'yml',
-          'toml',
-          'ini',
-          'log',
-        ],
+        extensions: TEXT_FILE_EXTENSIONS,
       },
       { name: 'All Files', extensions: ['*'] },
     ],
@@ -137,16 +188,318 @@ async function openFileFromDialog(parentWindow?: BrowserWindow): Promise<OpenFil
 
   if (result.canceled || result.filePaths.length === 0) return null
 
-  const filePath = result.filePaths[0]
+  return await rememberOpened(await readTextFile(result.filePaths[0]))
+}
+
+async function openFolderFromDialog(parentWindow?: BrowserWindow): Promise<FolderScan | null> {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Open Folder',
+    properties: ['openDirectory'],
+  }
+
+  const result = parentWindow
+    ? await dialog.showOpenDialog(parentWindow, options)
+    : await dialog.showOpenDialog(options)
+
+  if (result.canceled || result.filePaths.length === 0) return null
+
+  const rootPath = path.resolve(result.filePaths[0])
+  openedFolders.add(rootPath)
+  return await scanFolder(rootPath)
+}
+
+async function openFolderFile(filePath: string): Promise<OpenFileResult> {
+  const resolved = path.resolve(filePath)
+  const inOpenedFolder = Array.from(openedFolders).some((root) => {
+    const relative = path.relative(root, resolved)
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)
+  })
+  if (!inOpenedFolder) throw new Error(`Not inside an opened folder: ${filePath}`)
+  return await rememberOpened(await readTextFile(resolved))
+}
+
+/** Runs the local git binary (never anything that talks to a remote) and returns stdout. */
+async function runGit(repoPath: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', ['-c', 'core.quotepath=off', ...args], {
+      cwd: repoPath,
+      encoding: 'utf8',
+      maxBuffer: GIT_MAX_OUTPUT_BYTES,
+      windowsHide: true,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_OPTIONAL_LOCKS: '0' },
+    })
+    return stdout
+  } catch (error) {
+    if (isErrnoException(error) && error.code === 'ENOENT') {
+      throw new Error('Could not run git. Install git and make sure it is on your PATH.')
+    }
+    const stderr = (error as { stderr?: unknown }).stderr
+    if (typeof stderr === 'string' && stderr.trim()) throw new Error(stderr.trim())
+    throw error
+  }
+}
+
+async function openGitRepoFromDialog(parentWindow?: BrowserWindow): Promise<GitRepo | null> {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Open Git Repository',
+    properties: ['openDirectory'],
+  }
+
+  const result = parentWindow
+    ? await dialog.showOpenDialog(parentWindow, options)
+    : await dialog.showOpenDialog(options)
+
+  if (result.canceled || result.filePaths.length === 0) return null
+
+  const repoPath = path.resolve((await runGit(result.filePaths[0], ['rev-parse', '--show-toplevel'])).trim())
+  openedRepos.add(repoPath)
+
+  let log = ''
+  try {
+    log = await runGit(repoPath, ['log', '-n', String(GIT_LOG_LIMIT), '--no-color', '--format=%H%x1f%h%x1f%s%x1f%an%x1f%ct'])
+  } catch {
+    // No commits yet: only the working tree can be practised.
+  }
+  const commits = log.split('\n').filter(Boolean).map((line): GitCommit => {
+    const [hash, shortHash, subject, author, time] = line.split('\x1f')
+    return { hash, shortHash, subject, author, timeMs: Number(time) * 1000 }
+  })
+
+  return { repoPath, repoName: path.basename(repoPath), commits }
+}
+
+/** What uncommitted changes are diffed against: HEAD, or the empty tree before the first commit. */
+async function workingTreeBase(root: string): Promise<string> {
+  try {
+    await runGit(root, ['rev-parse', '--verify', '--quiet', 'HEAD'])
+    return 'HEAD'
+  } catch {
+    const format = (await runGit(root, ['rev-parse', '--show-object-format'])).trim()
+    const emptyTree = GIT_EMPTY_TREE[format]
+    if (!emptyTree) throw new Error(`Unsupported git object format: ${format}`)
+    return emptyTree
+  }
+}
+
+/** Added lines of `commit`, or of uncommitted changes (staged and unstaged) when `commit` is null. */
+async function openGitDiff(repoPath: string, commit: string | null): Promise<OpenFileResult> {
+  const root = path.resolve(repoPath)
+  if (!openedRepos.has(root)) throw new Error(`Not an opened repository: ${repoPath}`)
+  if (commit !== null && !/^[0-9a-f]{4,64}$/i.test(commit)) throw new Error(`Not a commit hash: ${commit}`)
+
+  // Pinned so user config (diff.noprefix, diff.mnemonicPrefix, textconv filters) can't change what the parser reads.
+  const diffOptions = ['--no-color', '--no-ext-diff', '--no-textconv', '--src-prefix=a/', '--dst-prefix=b/', '--unified=0']
+  const diff = commit === null
+    ? await runGit(root, ['diff', ...diffOptions, await workingTreeBase(root)])
+    // A merge shows its diff against the first parent, i.e. what the merge brought in.
+    : await runGit(root, ['show', ...diffOptions, '-m', '--first-parent', '--format=', commit])
+  const hunks = parseDiffHunks(diff)
+
+  const repoName = path.basename(root)
+  const label = commit === null ? 'uncommitted changes' : commit.slice(0, 7)
+  if (hunks.length === 0) throw new Error(`No added lines in ${repoName} (${label}).`)
+
+  return {
+    filePath: root,
+    fileName: `${repoName} @ ${label}`,
+    content: hunks.map((h) => h.text).join('\n'),
+    encoding: 'utf8',
+    hunks,
+  }
+}
+
+/** A file dropped on the window; preload maps the dropped `File` to its path. */
+async function openDroppedFile(filePath: string): Promise<OpenFileResult> {
+  if (!filePath) throw new Error('Only files saved on disk can be dropped.')
+  const resolved = path.resolve(filePath)
+  const stats = await fs.stat(resolved)
+  if (!stats.isFile()) throw new Error(`${path.basename(resolved)} is not a file. Use Open Folder for folders.`)
+  return await rememberOpened(await readTextFile(resolved))
+}
+
+/** App arguments only: argv also holds the executable, and the app path when run through `electron .`. */
+function appArgs(argv: string[]): string[] {
+  return argv.slice(process.defaultApp ? 2 : 1)
+}
+
+/** Reads a file named on the command line. Failures get a dialog: no page asked for the file. */
+async function openLaunchFile(request: LaunchRequest, cwd: string): Promise<LaunchOpen | null> {
+  const filePath = path.resolve(cwd, request.filePath)
+  try {
+    const file = await rememberOpened(await readTextFile(filePath))
+    return { file, line: request.line, segmentIndex: request.segmentIndex }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    dialog.showErrorBox('Open File Failed', `${filePath}\n\n${message}`)
+    return null
+  }
+}
+
+async function readTextFile(filePath: string): Promise<OpenFileResult> {
   const fileName = path.basename(filePath)
 
   const buffer = await fs.readFile(filePath)
-  const { content, encoding } = decodeTextFile(buffer)
+  const encodingOverride = encodingOverrides.get(filePath)
+  // A picked encoding is the user's call; BOM-less UTF-16 passes the sniff by its NUL pattern.
+  if (!encodingOverride && looksBinary(buffer)) {
+    throw new Error(`${fileName} looks like a binary file (NUL bytes or mostly control characters), so it can't be practised.`)
+  }
+  const { content, encoding } = decodeTextFile(buffer, encodingOverride)
+
+  const contentHash = createHash('sha256').update(content).digest('hex')
+  readFilePaths.add(filePath)
+  return { filePath, fileName, content, encoding, contentHash }
+}
+
+/** Decodes an opened file again with `encoding`, which sticks for the rest of the run. */
+async function reopenWithEncoding(filePath: string, encoding: string): Promise<OpenFileResult> {
+  if (!readFilePaths.has(filePath)) throw new Error(`Not an opened file: ${filePath}`)
+  if (!iconv.encodingExists(encoding)) throw new Error(`Unknown encoding: ${encoding}`)
+  encodingOverrides.set(filePath, encoding)
+  return await rememberOpened(await readTextFile(filePath))
+}
+
+/** Re-reads the watched file and pushes `app:file-changed` when its content differs from what the renderer has. */
+async function checkWatchedFile() {
+  const watched = watchedFile
+  if (!watched) return
+
+  let file: OpenFileResult
+  try {
+    file = await readTextFile(watched.filePath)
+  } catch {
+    // Mid-save or deleted; a later poll sees it again if it comes back.
+    return
+  }
+  if (watchedFile !== watched || file.contentHash === watched.contentHash || !file.contentHash) return
+
+  watched.contentHash = file.contentHash
+  if (!watched.sender.isDestroyed()) watched.sender.send('app:file-changed', file)
+}
+
+function onWatchedFileStat(curr: Stats, prev: Stats) {
+  if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return
+  void checkWatchedFile()
+}
+
+/** Watches one file for the renderer (the practised one); `null` stops watching. */
+function watchOpenFile(sender: Electron.WebContents, filePath: string | null, contentHash: string | null) {
+  const wasWatching = watchedFile !== null
+  if (watchedFile) unwatchFile(watchedFile.filePath, onWatchedFileStat)
+  watchedFile = null
+  if (filePath && contentHash) {
+    if (!readFilePaths.has(filePath)) throw new Error(`Not an opened file: ${filePath}`)
+    watchedFile = { filePath, contentHash, sender }
+    watchFile(filePath, { interval: FILE_WATCH_INTERVAL_MS }, onWatchedFileStat)
+    // It may have changed while nothing was watching it (e.g. on the Summary page).
+    void checkWatchedFile()
+  }
+  // “Reopen with Encoding…” applies to the practised file, which is the watched one.
+  if (wasWatching !== (watchedFile !== null)) setAppMenu()
+}
+
+/** Puts a file the user opened on top of the recent list (and the File menu). */
+async function rememberOpened(file: OpenFileResult): Promise<OpenFileResult> {
+  try {
+    await recentFilesStore?.touch({
+      filePath: file.filePath,
+      fileName: file.fileName,
+      encoding: file.encoding,
+      lastOpenedAtMs: Date.now(),
+    })
+    await refreshRecentMenu()
+  } catch (error) {
+    console.error('Failed to update recent files:', error)
+  }
+  return file
+}
 
-  return { filePath, fileName, content, encoding }
+async function refreshRecentMenu() {
+  recentFilesForMenu = await recentFilesStore?.list() ?? []
+  setAppMenu()
+}
+
+async function openRecentFile(filePath: string): Promise<OpenFileResult> {
+  const recent = await recentFilesStore?.list() ?? []
+  // Only paths the user opened before; the renderer can't name arbitrary files.
+  if (!recent.some((f) => f.filePath === filePath)) throw new Error(`Not a recent file: ${filePath}`)
+
+  let file: OpenFileResult
+  try {
+    file = await readTextFile(filePath)
+  } catch (error) {
+    const code = isErrnoException(error) ? error.code : undefined
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
+      throw new Error(`${path.basename(filePath)} is no longer at ${filePath}. It may have been moved or deleted.`)
+    }
+    throw error
+  }
+  return await rememberOpened(file)
+}
+
+function isErrnoException(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error && 'code' in error
+}
+
+async function loadResumableSession(): Promise<ResumableSession | null> {
+  const session = await sessionStore?.load()
+  if (!session) return null
+
+  try {
+    return { session, file: await readTextFile(session.filePath) }
+  } catch {
+    // Keep the saved session: the file may only be unavailable for now (e.g. an unmounted drive).
+    return null
+  }
+}
+
+/** Files the user opened most recently, newest first, re-read from disk (unreadable ones are skipped). */
+async function loadRecentFiles(limit: number): Promise<OpenFileResult[]> {
+  const recent = await recentFilesStore?.list() ?? []
+  const files: OpenFileResult[] = []
+  for (const { filePath } of recent.slice(0, limit)) {
+    try {
+      files.push(await readTextFile(filePath))
+    } catch {
+      // Moved or deleted since; the recent list still mentions it.
+    }
+  }
+  return files
+}
+
+function sendOpenedFile(load: () => Promise<OpenFileResult | null>) {
+  return async () => {
+    try {
+      const opened = await load()
+      if (opened && win) {
+        win.webContents.send('app:file-opened', opened)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      dialog.showErrorBox('Open File Failed', message)
+    }
+  }
 }
 
 function setAppMenu() {
+  const recentSubmenu: Electron.MenuItemConstructorOptions[] = recentFilesForMenu.length > 0
+    ? [
+      ...recentFilesForMenu.map((f): Electron.MenuItemConstructorOptions => ({
+        label: f.fileName,
+        sublabel: f.filePath,
+        click: sendOpenedFile(() => openRecentFile(f.filePath)),
+      })),
+      { type: 'separator' },
+      {
+        label: 'Clear Recently Opened',
+        click: async () => {
+          await recentFilesStore?.clear()
+          await refreshRecentMenu()
+        },
+      },
+    ]
+    : [{ label: 'No Recent Files', enabled: false }]
+
   const template: Electron.MenuItemConstructorOptions[] = [
     {
       label: 'File',
@@ -154,19 +507,31 @@ function setAppMenu() {
         {
           label: 'Open...',
           accelerator: 'CmdOrCtrl+O',
+          click: sendOpenedFile(() => openFileFromDialog(BrowserWindow.getFocusedWindow() ?? win ?? undefined)),
+        },
+        {
+          label: 'Open Folder...',
+          accelerator: 'CmdOrCtrl+Shift+O',
           click: async () => {
-            const focused = BrowserWindow.getFocusedWindow() ?? win ?? undefined
             try {
-              const opened = await openFileFromDialog(focused)
-              if (opened && win) {
-                win.webContents.send('app:file-opened', opened)
+              const scan = await openFolderFromDialog(BrowserWindow.getFocusedWindow() ?? win ?? undefined)
+              if (scan && win) {
+                win.webContents.send('app:folder-opened', scan)
               }
             } catch (error) {
               const message = error instanceof Error ? error.message : String(error)
-              dialog.showErrorBox('Open File Failed', message)
+              dialog.showErrorBox('Open Folder Failed', message)
             }
           },
         },
+        { label: 'Open Recent', submenu: recentSubmenu },
+        {
+          label: 'Reopen with Encoding...',
+          enabled: watchedFile !== null,
+          click: () => {
+            watchedFile?.sender.send('app:reopen-encoding-requested')
+          },
+        },
         { type: 'separator' },
         process.platform === 'darwin' ? { role: 'close' } : { role: 'quit' },
       ],
@@ -220,7 +585,7 @@ function createWindow() {
   win.webContents.on('render-process-gone', (_event, details) => {
     void promptReloadWindow(
       'The renderer process exited unexpectedly.',
-      `Reason: ${details.reason} (exitCode: ${details.exitCode})`,
+      `Reason: ${details.reason} (exitCode: ${details.exitCode})\n\nYour typing progress is saved every few seconds and can be resumed after reloading.`,
       ['Reload', 'Close'],
     )
   })
@@ -251,14 +616,84 @@ app.on('activate', () => {
   }
 })
 
+// A second launch hands its arguments to the running instance (see 'second-instance') and quits.
+const hasInstanceLock = app.requestSingleInstanceLock()
+if (!hasInstanceLock) {
+  app.quit()
+} else {
+  launchRequest = parseLaunchArgs(appArgs(process.argv))
+}
+
+app.on('second-instance', (_event, argv, workingDirectory) => {
+  if (win) {
+    if (win.isMinimized()) win.restore()
+    win.focus()
+  }
+
+  const request = parseLaunchArgs(appArgs(argv))
+  if (!request) return
+  void openLaunchFile(request, workingDirectory).then((opened) => {
+    if (opened && win) win.webContents.send('app:launch-opened', opened)
+  })
+})
+
 app.whenReady().then(() => {
+  if (!hasInstanceLock) return
+
   attemptRepo = createJsonAttemptRepo(path.join(app.getPath('userData'), 'attempts.json'))
+  sessionStore = createJsonSessionStore(path.join(app.getPath('userData'), 'session.json'))
+  fileProgressStore = createJsonFileProgressStore(path.join(app.getPath('userData'), 'progress.json'))
+  recentFilesStore = createJsonRecentFilesStore(path.join(app.getPath('userData'), 'recent.json'), RECENT_MENU_LIMIT)
 
   ipcMain.handle('app:openFile', async () => {
     const focused = BrowserWindow.getFocusedWindow() ?? win ?? undefined
     return await openFileFromDialog(focused)
   })
 
+  ipcMain.handle('app:openFolder', async () => {
+    const focused = BrowserWindow.getFocusedWindow() ?? win ?? undefined
+    return await openFolderFromDialog(focused)
+  })
+
+  ipcMain.handle('app:openFolderFile', async (_event, filePath: string) => {
+    return await openFolderFile(filePath)
+  })
+
+  ipcMain.handle('app:listEncodings', () => {
+    return REOPEN_ENCODINGS.filter((e) => iconv.encodingExists(e.value))
+  })
+
+  ipcMain.handle('app:reopenWithEncoding', async (_event, filePath: string, encoding: string) => {
+    return await reopenWithEncoding(filePath, encoding)
+  })
+
+  ipcMain.handle('app:watchFile', (event, filePath: string | null, contentHash: string | null) => {
+    watchOpenFile(event.sender, filePath, contentHash)
+  })
+
+  ipcMain.handle('app:takeLaunchFile', async () => {
+    const request = launchRequest
+    launchRequest = null
+    return request ? await openLaunchFile(request, process.cwd()) : null
+  })
+
+  ipcMain.handle('app:openDroppedFile', async (event, filePath: string) => {
+    event.sender.send('app:file-opened', await openDroppedFile(filePath))
+  })
+
+  ipcMain.handle('app:readClipboardText', () => {
+    return clipboard.readText()
+  })
+
+  ipcMain.handle('app:openGitRepo', async () => {
+    const focused = BrowserWindow.getFocusedWindow() ?? win ?? undefined
+    return await openGitRepoFromDialog(focused)
+  })
+
+  ipcMain.handle('app:openGitDiff', async (_event, repoPath: string, commit: string | null) => {
+    return await openGitDiff(repoPath, commit)
+  })
+
   ipcMain.handle('app:saveAttempt', async (_event, attempt: Attempt) => {
     await attemptRepo?.add(attempt)
   })
@@ -267,6 +702,56 @@ app.whenReady().then(() => {
     return await attemptRepo?.list() ?? []
   })
 
+  ipcMain.handle('app:loadRecentFiles', async () => {
+    return await loadRecentFiles(RECENT_FILE_LIMIT)
+  })
+
+  ipcMain.handle('app:recordFileProgress', async (_event, update: FileProgressUpdate) => {
+    return await fileProgressStore?.record(update) ?? null
+  })
+
+  ipcMain.handle('app:listFileProgress', async () => {
+    return await fileProgressStore?.list() ?? []
+  })
+
+  ipcMain.handle('app:getFileProgress', async (_event, filePath: string, contentHash: string) => {
+    return await fileProgressStore?.get(filePath, contentHash) ?? null
+  })
+
+  ipcMain.handle('app:openProgressFile', async (_event, filePath: string) => {
+    // Only files the user has practised before; the renderer can't name arbitrary paths.
+    const known = await fileProgressStore?.list() ?? []
+    if (!known.some((p) => p.filePath === filePath)) return null
+    return await rememberOpened(await readTextFile(filePath))
+  })
+
+  ipcMain.handle('app:listRecentFiles', async () => {
+    return await recentFilesStore?.list() ?? []
+  })
+
+  ipcMain.handle('app:openRecentFile', async (_event, filePath: string) => {
+    return await openRecentFile(filePath)
+  })
+
+  ipcMain.handle('app:removeRecentFile', async (_event, filePath: string) => {
+    await recentFilesStore?.remove(filePath)
+    await refreshRecentMenu()
+  })
+
+  ipcMain.handle('app:saveSession', async (_event, session: SavedSession) => {
+    await sessionStore?.save(session)
+    await recentFilesStore?.setLastSegment(session.filePath, session.segmentIndex)
+  })
+
+  ipcMain.handle('app:clearSession', async () => {
+    await sessionStore?.clear()
+  })
+
+  ipcMain.handle('app:loadSession', async () => {
+    return await loadResumableSession()
+  })
+
   setAppMenu()
+  void refreshRecentMenu().catch((error: unknown) => console.error('Failed to load recent files:', error))
   createWindow()
 })
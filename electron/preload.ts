@@ -1,5 +1,5 @@
-import { ipcRenderer, contextBridge } from 'electron'
-import type { Attempt, OpenFileResult } from '../src/shared/types'
+import { ipcRenderer, contextBridge, webUtils } from 'electron'
+import type { Attempt, EncodingOption, FileProgress, FileProgressUpdate, FolderScan, GitRepo, LaunchOpen, OpenFileResult, RecentFile, ResumableSession, SavedSession } from '../src/shared/types'
 
 contextBridge.exposeInMainWorld('api', {
   openFile(): Promise<OpenFileResult | null> {
@@ -10,10 +10,94 @@ contextBridge.exposeInMainWorld('api', {
     ipcRenderer.on('app:file-opened', listener)
     return () => ipcRenderer.off('app:file-opened', listener)
   },
+  listEncodings(): Promise<EncodingOption[]> {
+    return ipcRenderer.invoke('app:listEncodings')
+  },
+  reopenWithEncoding(filePath: string, encoding: string): Promise<OpenFileResult> {
+    return ipcRenderer.invoke('app:reopenWithEncoding', filePath, encoding)
+  },
+  onReopenEncodingRequested(callback: () => void) {
+    const listener = () => callback()
+    ipcRenderer.on('app:reopen-encoding-requested', listener)
+    return () => ipcRenderer.off('app:reopen-encoding-requested', listener)
+  },
+  watchFile(filePath: string | null, contentHash: string | null): Promise<void> {
+    return ipcRenderer.invoke('app:watchFile', filePath, contentHash)
+  },
+  onFileChanged(callback: (payload: OpenFileResult) => void) {
+    const listener = (_event: Electron.IpcRendererEvent, payload: OpenFileResult) => callback(payload)
+    ipcRenderer.on('app:file-changed', listener)
+    return () => ipcRenderer.off('app:file-changed', listener)
+  },
+  takeLaunchFile(): Promise<LaunchOpen | null> {
+    return ipcRenderer.invoke('app:takeLaunchFile')
+  },
+  onLaunchOpened(callback: (payload: LaunchOpen) => void) {
+    const listener = (_event: Electron.IpcRendererEvent, payload: LaunchOpen) => callback(payload)
+    ipcRenderer.on('app:launch-opened', listener)
+    return () => ipcRenderer.off('app:launch-opened', listener)
+  },
+  openDroppedFile(file: File): Promise<void> {
+    // The renderer can't see paths of dropped files; `webUtils` only works here. The file arrives via `app:file-opened`.
+    return ipcRenderer.invoke('app:openDroppedFile', webUtils.getPathForFile(file))
+  },
+  readClipboardText(): Promise<string> {
+    return ipcRenderer.invoke('app:readClipboardText')
+  },
+  listRecentFiles(): Promise<RecentFile[]> {
+    return ipcRenderer.invoke('app:listRecentFiles')
+  },
+  openRecentFile(filePath: string): Promise<OpenFileResult> {
+    return ipcRenderer.invoke('app:openRecentFile', filePath)
+  },
+  removeRecentFile(filePath: string): Promise<void> {
+    return ipcRenderer.invoke('app:removeRecentFile', filePath)
+  },
+  openFolder(): Promise<FolderScan | null> {
+    return ipcRenderer.invoke('app:openFolder')
+  },
+  onFolderOpened(callback: (payload: FolderScan) => void) {
+    const listener = (_event: Electron.IpcRendererEvent, payload: FolderScan) => callback(payload)
+    ipcRenderer.on('app:folder-opened', listener)
+    return () => ipcRenderer.off('app:folder-opened', listener)
+  },
+  openFolderFile(filePath: string): Promise<OpenFileResult> {
+    return ipcRenderer.invoke('app:openFolderFile', filePath)
+  },
+  openGitRepo(): Promise<GitRepo | null> {
+    return ipcRenderer.invoke('app:openGitRepo')
+  },
+  openGitDiff(repoPath: string, commit: string | null): Promise<OpenFileResult> {
+    return ipcRenderer.invoke('app:openGitDiff', repoPath, commit)
+  },
   saveAttempt(attempt: Attempt): Promise<void> {
     return ipcRenderer.invoke('app:saveAttempt', attempt)
   },
   listAttempts(): Promise<Attempt[]> {
     return ipcRenderer.invoke('app:listAttempts')
   },
+  loadRecentFiles(): Promise<OpenFileResult[]> {
+    return ipcRenderer.invoke('app:loadRecentFiles')
+  },
+  recordFileProgress(update: FileProgressUpdate): Promise<FileProgress | null> {
+    return ipcRenderer.invoke('app:recordFileProgress', update)
+  },
+  listFileProgress(): Promise<FileProgress[]> {
+    return ipcRenderer.invoke('app:listFileProgress')
+  },
+  getFileProgress(filePath: string, contentHash: string): Promise<FileProgress | null> {
+    return ipcRenderer.invoke('app:getFileProgress', filePath, contentHash)
+  },
+  openProgressFile(filePath: string): Promise<OpenFileResult | null> {
+    return ipcRenderer.invoke('app:openProgressFile', filePath)
+  },
+  saveSession(session: SavedSession): Promise<void> {
+    return ipcRenderer.invoke('app:saveSession', session)
+  },
+  clearSession(): Promise<void> {
+    return ipcRenderer.invoke('app:clearSession')
+  },
+  loadSession(): Promise<ResumableSession | null> {
+    return ipcRenderer.invoke('app:loadSession')
+  },
 })
@@ -1,62 +1,97 @@
+import { notifications } from '@mantine/notifications'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import type { Attempt, OpenFileResult, TextSegment, TypingSettings } from './shared/types'
+import type { Attempt, FileProgress, FolderScan, LaunchOpen, OpenFileResult, ResumableSession, SessionProgress, TextSegment, TypingSettings } from './shared/types'
 import { DEFAULT_TYPING_SETTINGS, normalizeTypingSettings } from './shared/typingSettings'
 import { Home } from './pages/Home'
 import { Loading } from './pages/Loading'
 import { Typing } from './pages/Typing'
 import { Summary } from './pages/Summary'
 import { Analytics } from './pages/Analytics'
+import { Replay } from './pages/Replay'
+import { FolderBrowser } from './pages/FolderBrowser'
+import { buildDrillSegment, pickDrillTargets } from './core/drill'
+import { firstUnfinishedSegment } from './core/fileProgress'
+import { languageForFile } from './core/languages'
+import { findClosestSegment, findSegmentForLine } from './core/segmenter'
+import { analyzeWeaknesses } from './core/weakness'
 
 type TypingSession = {
   file: OpenFileResult
   segments: TextSegment[]
   settings: TypingSettings
   segmentIndex: number
+  /** Engine state to pick up on `segmentIndex` (resumed sessions only). */
+  resume?: SessionProgress
+  /** A generated weakness drill: one synthetic segment, never saved for resuming. */
+  drill?: boolean
 }
 
+type SessionStart =
+  | { segmentIndex: number; progress?: SessionProgress }
+  /** Start in the segment containing this 1-based line (known only after segmenting). */
+  | { line: number }
+  /** Start in the segment closest to these lines (a re-segmented file that changed on disk). */
+  | { startLine: number; endLine: number }
+  /** Start in the first segment not covered by this progress's completed lines (Continue). */
+  | { unfinishedOf: FileProgress }
+
 type Route =
   | { name: 'home' }
   | { name: 'loading'; file: OpenFileResult; settings: TypingSettings }
   | { name: 'typing'; session: TypingSession }
   | { name: 'summary'; session: TypingSession; attempt: Attempt }
   | { name: 'analytics' }
+  | { name: 'folder'; scan: FolderScan }
+  | { name: 'replay'; attempt: Attempt; returnTo: Route }
 
 const SETTINGS_STORAGE_KEY = 'typing-trainer-typing-settings'
+const DRILL_FILE_NAME = 'Weakness drill'
+
+function saveSessionProgress(session: TypingSession, progress: SessionProgress | null) {
+  window.api.saveSession({
+    savedAtMs: Date.now(),
+    filePath: session.file.filePath,
+    fileName: session.file.fileName,
+    settings: session.settings,
+    segmentIndex: session.segmentIndex,
+    progress: progress ?? undefined,
+  }).catch((error: unknown) => console.error('Failed to save session:', error))
+}
+
+/** Only files read from disk carry a `contentHash`; drills, diffs and snippets can't be reopened. */
+function isResumable(session: TypingSession): boolean {
+  return Boolean(session.file.contentHash)
+}
+
+function recordFileProgress(session: TypingSession, attempt: Attempt) {
+  const { file, segments } = session
+  if (session.drill || !file.contentHash || segments.length === 0) return
+  window.api.recordFileProgress({
+    filePath: file.filePath,
+    fileName: file.fileName,
+    contentHash: file.contentHash,
+    lineCount: segments[segments.length - 1].endLine,
+    segmentCount: segments.length,
+    segmentIndex: attempt.segmentIndex,
+    startLine: attempt.segmentStartLine,
+    endLine: attempt.segmentEndLine,
+    wpm: attempt.wpm,
+    durationMs: attempt.durationMs,
+    atMs: attempt.endAtMs,
+  }).catch((error: unknown) => console.error('Failed to record file progress:', error))
+}
 
-const CODE_DEFAULT_EXCLUDE_COMMENT_EXTS = new Set([
-  'c',
-  'h',
-  'cpp',
-  'cc',
-  'hpp',
-  'java',
-  'js',
-  'ts',
-  'tsx',
-  'go',
-  'rs',
-  'cs',
-  'kt',
-  'py',
-  'swift',
-  'php',
-  'rb',
-  'scala',
-  'm',
-  'mm',
-  'sql',
-])
-
-function getFileExtensionLower(fileName: string): string {
-  const lower = fileName.toLowerCase()
-  const dot = lower.lastIndexOf('.')
-  return dot >= 0 ? lower.slice(dot + 1) : ''
+function startSegmentIndex(segments: TextSegment[], start: SessionStart | undefined): number {
+  let wanted = 0
+  if (start && 'line' in start) wanted = findSegmentForLine(segments, start.line)
+  else if (start && 'startLine' in start) wanted = findClosestSegment(segments, start.startLine, start.endLine)
+  else if (start && 'unfinishedOf' in start) wanted = firstUnfinishedSegment(start.unfinishedOf, segments) ?? 0
+  else if (start) wanted = start.segmentIndex
+  return Math.max(0, Math.min(segments.length - 1, wanted))
 }
 
 function defaultIncludeCommentsForFile(fileName: string): boolean {
-  const ext = getFileExtensionLower(fileName)
-  if (CODE_DEFAULT_EXCLUDE_COMMENT_EXTS.has(ext)) return false
-  return true
+  return languageForFile(fileName)?.defaults.includeComments ?? true
 }
 
 export default function App() {
@@ -70,6 +105,9 @@ export default function App() {
       return DEFAULT_TYPING_SETTINGS
     }
   })
+  const [resumable, setResumable] = useState<ResumableSession | null>(null)
+  /** A newer version of the practised file, pushed by main's watcher; applied only when the user accepts. */
+  const [changedFile, setChangedFile] = useState<OpenFileResult | null>(null)
   const segmenterWorkerRef = useRef<Worker | null>(null)
   const segmentRequestIdRef = useRef<string | null>(null)
 
@@ -94,7 +132,20 @@ export default function App() {
     return segmenterWorkerRef.current
   }, [])
 
-  const startSession = useCallback((file: OpenFileResult, overrideSettings?: TypingSettings) => {
+  useEffect(() => {
+    if (route.name !== 'home') return
+    let cancelled = false
+    window.api.loadSession()
+      .then((next) => {
+        if (!cancelled) setResumable(next)
+      })
+      .catch((error: unknown) => console.error('Failed to load session:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [route.name])
+
+  const startSession = useCallback((file: OpenFileResult, overrideSettings?: TypingSettings, start?: SessionStart) => {
     const baseSettings = overrideSettings ?? settings
     const sessionSettings = overrideSettings
       ? baseSettings
@@ -120,9 +171,16 @@ export default function App() {
         return
       }
 
+      const segmentIndex = startSegmentIndex(payload.segments, start)
       setRoute({
         name: 'typing',
-        session: { file, segments: payload.segments, settings: sessionSettings, segmentIndex: 0 },
+        session: {
+          file,
+          segments: payload.segments,
+          settings: sessionSettings,
+          segmentIndex,
+          resume: start && 'segmentIndex' in start && segmentIndex === start.segmentIndex ? start.progress : undefined,
+        },
       })
     }
     worker.onerror = (event) => {
@@ -135,13 +193,48 @@ export default function App() {
       id: requestId,
       content: file.content,
       fileName: file.fileName,
+      hunks: file.hunks,
       linesPerSegment: sessionSettings.linesPerSegment,
+      segmentStrategy: sessionSettings.segmentStrategy,
       tabWidth: sessionSettings.tabWidth,
       maxSegmentChars: sessionSettings.maxSegmentChars,
       includeComments: sessionSettings.includeComments,
     })
   }, [getSegmenterWorker, settings])
 
+  /** Drills from `current` when it has lines with weak symbols, otherwise from recently practised files. */
+  const startDrill = useCallback(async (current?: OpenFileResult) => {
+    try {
+      const targets = pickDrillTargets(analyzeWeaknesses(await window.api.listAttempts()))
+      if (targets.length === 0) {
+        notifications.show({ color: 'yellow', title: 'Not enough data', message: 'Finish a few segments first; the drill is built from symbols you have mistyped.' })
+        return
+      }
+
+      const options = { tabWidth: settings.tabWidth }
+      let segment = current ? buildDrillSegment([current], targets, options) : null
+      if (!segment) segment = buildDrillSegment(await window.api.loadRecentFiles(), targets, options)
+      if (!segment) {
+        notifications.show({ color: 'yellow', title: 'No drill lines', message: `No lines in recent files contain your weak spots (${targets.map((t) => t.key).join(' ')}).` })
+        return
+      }
+
+      setRoute({
+        name: 'typing',
+        session: {
+          file: { filePath: '', fileName: DRILL_FILE_NAME, content: segment.text, encoding: 'utf8' },
+          segments: [segment],
+          settings,
+          segmentIndex: 0,
+          drill: true,
+        },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      notifications.show({ color: 'red', title: 'Drill failed', message })
+    }
+  }, [settings])
+
   function cancelLoading() {
     segmentRequestIdRef.current = null
     setRoute({
@@ -149,12 +242,67 @@ export default function App() {
     })
   }
 
+  function resumeSession({ session, file }: ResumableSession) {
+    startSession(file, normalizeTypingSettings(session.settings), { segmentIndex: session.segmentIndex, progress: session.progress })
+  }
+
+  function continueFile(file: OpenFileResult, progress: FileProgress) {
+    const sameVersion = progress.contentHash === file.contentHash
+    startSession(file, undefined, sameVersion ? { unfinishedOf: progress } : undefined)
+  }
+
+  /** Re-segments a new version of the session's file, staying near the current segment's lines. */
+  function reopenInSession(session: TypingSession, file: OpenFileResult) {
+    const current = session.segments[session.segmentIndex]
+    startSession(file, session.settings, current ? { startLine: current.startLine, endLine: current.endLine } : undefined)
+  }
+
+  function discardResumable() {
+    setResumable(null)
+    window.api.clearSession().catch((error: unknown) => console.error('Failed to clear session:', error))
+  }
+
   useEffect(() => {
     return window.api.onFileOpened((file) => {
       startSession(file)
     })
   }, [startSession])
 
+  const openLaunch = useCallback(({ file, line, segmentIndex }: LaunchOpen) => {
+    startSession(file, undefined, line !== undefined ? { line } : { segmentIndex: segmentIndex ?? 0 })
+  }, [startSession])
+
+  useEffect(() => {
+    // Main hands the command-line file out once, so a re-run of this effect gets null.
+    window.api.takeLaunchFile()
+      .then((opened) => {
+        if (opened) openLaunch(opened)
+      })
+      .catch((error: unknown) => console.error('Failed to open launch file:', error))
+  }, [openLaunch])
+
+  useEffect(() => {
+    return window.api.onLaunchOpened(openLaunch)
+  }, [openLaunch])
+
+  const watchedPath = route.name === 'typing' ? route.session.file.filePath : null
+  const watchedHash = route.name === 'typing' ? route.session.file.contentHash ?? null : null
+  useEffect(() => {
+    // Only real files have a hash; anything else (and leaving Typing) stops the watcher.
+    window.api.watchFile(watchedHash ? watchedPath : null, watchedHash)
+      .catch((error: unknown) => console.error('Failed to watch file:', error))
+  }, [watchedHash, watchedPath])
+
+  useEffect(() => {
+    return window.api.onFileChanged(setChangedFile)
+  }, [])
+
+  useEffect(() => {
+    return window.api.onFolderOpened((scan) => {
+      setRoute({ name: 'folder', scan })
+    })
+  }, [])
+
   if (route.name === 'loading') {
     return (
       <Loading
@@ -165,12 +313,28 @@ export default function App() {
   }
 
   if (route.name === 'typing') {
+    const { session } = route
+    const fileChanged = changedFile !== null
+      && changedFile.filePath === session.file.filePath
+      && changedFile.contentHash !== session.file.contentHash
     return (
       <Typing
-        file={route.session.file}
-        segments={route.session.segments}
-        settings={route.session.settings}
-        segmentIndex={route.session.segmentIndex}
+        file={session.file}
+        segments={session.segments}
+        settings={session.settings}
+        segmentIndex={session.segmentIndex}
+        resume={session.resume}
+        fileChanged={fileChanged}
+        onReloadFile={() => {
+          if (!changedFile) return
+          setChangedFile(null)
+          reopenInSession(session, changedFile)
+        }}
+        onDismissFileChange={() => setChangedFile(null)}
+        onReopen={(file) => reopenInSession(session, file)}
+        onProgress={(progress) => {
+          if (isResumable(session)) saveSessionProgress(session, progress)
+        }}
         onBack={() => setRoute({ name: 'home' })}
         onUpdateSettings={(next) => {
           setSettings(next)
@@ -178,28 +342,40 @@ export default function App() {
           const prevSettings = route.session.settings
           const requiresResegment = (
             prevSettings.linesPerSegment !== next.linesPerSegment
+            || prevSettings.segmentStrategy !== next.segmentStrategy
             || prevSettings.tabWidth !== next.tabWidth
             || prevSettings.maxSegmentChars !== next.maxSegmentChars
             || prevSettings.includeComments !== next.includeComments
           )
 
-          if (requiresResegment) {
+          if (requiresResegment && !route.session.drill) {
             startSession(route.session.file, next)
             return
           }
 
           setRoute((prev) => {
             if (prev.name !== 'typing') return prev
-            return { name: 'typing', session: { ...prev.session, settings: next } }
+            return { name: 'typing', session: { ...prev.session, settings: next, resume: undefined } }
           })
         }}
         onChangeSegment={(segmentIndex) => {
           setRoute((prev) => {
             if (prev.name !== 'typing') return prev
-            return { name: 'typing', session: { ...prev.session, segmentIndex } }
+            return { name: 'typing', session: { ...prev.session, segmentIndex, resume: undefined } }
           })
         }}
         onComplete={(attempt) => {
+          recordFileProgress(session, attempt)
+          if (isResumable(session)) {
+            // A finished segment is not worth resuming; pick up at the next one instead.
+            const nextIndex = session.segmentIndex + 1
+            if (nextIndex < session.segments.length) {
+              saveSessionProgress({ ...session, segmentIndex: nextIndex }, null)
+            } else {
+              discardResumable()
+            }
+          }
+
           setRoute((prev) => {
             if (prev.name !== 'typing') return prev
             return { name: 'summary', session: prev.session, attempt }
@@ -218,16 +394,43 @@ export default function App() {
         hasNext={session.segmentIndex < session.segments.length - 1}
         onHome={() => setRoute({ name: 'home' })}
         onAnalytics={() => setRoute({ name: 'analytics' })}
-        onRetry={() => setRoute({ name: 'typing', session })}
-        onPrev={() => setRoute({ name: 'typing', session: { ...session, segmentIndex: Math.max(0, session.segmentIndex - 1) } })}
-        onNext={() => setRoute({ name: 'typing', session: { ...session, segmentIndex: Math.min(session.segments.length - 1, session.segmentIndex + 1) } })}
+        onDrill={() => void startDrill(session.drill ? undefined : session.file)}
+        onReplay={() => setRoute({ name: 'replay', attempt, returnTo: route })}
+        onRetry={() => setRoute({ name: 'typing', session: { ...session, resume: undefined } })}
+        onPrev={() => setRoute({ name: 'typing', session: { ...session, segmentIndex: Math.max(0, session.segmentIndex - 1), resume: undefined } })}
+        onNext={() => setRoute({ name: 'typing', session: { ...session, segmentIndex: Math.min(session.segments.length - 1, session.segmentIndex + 1), resume: undefined } })}
       />
     )
   }
 
   if (route.name === 'analytics') {
-    return <Analytics onHome={() => setRoute({ name: 'home' })} />
+    return (
+      <Analytics
+        onHome={() => setRoute({ name: 'home' })}
+        onReplay={(attempt) => setRoute({ name: 'replay', attempt, returnTo: route })}
+      />
+    )
+  }
+
+  if (route.name === 'folder') {
+    return <FolderBrowser scan={route.scan} onOpen={startSession} onHome={() => setRoute({ name: 'home' })} />
+  }
+
+  if (route.name === 'replay') {
+    return <Replay attempt={route.attempt} onBack={() => setRoute(route.returnTo)} />
   }
 
-  return <Home onOpen={startSession} onAnalytics={() => setRoute({ name: 'analytics' })} />
+  return (
+    <Home
+      onOpen={startSession}
+      onOpenFolder={(scan) => setRoute({ name: 'folder', scan })}
+      onAnalytics={() => setRoute({ name: 'analytics' })}
+      onDrill={() => void startDrill()}
+      onContinue={continueFile}
+      onOpenRecent={(file, segmentIndex) => startSession(file, undefined, segmentIndex !== undefined ? { segmentIndex } : undefined)}
+      resumable={resumable}
+      onResume={resumeSession}
+      onDiscardResume={discardResumable}
+    />
+  )
 }
@@ -0,0 +1,106 @@
+import { Button, Group, Modal, Select, Stack, Text, TextInput, Textarea } from '@mantine/core'
+import { useEffect, useState } from 'react'
+import { LANGUAGES } from '../core/languages'
+import type { OpenFileResult } from '../shared/types'
+
+type ClipboardSnippetDialogProps = {
+  opened: boolean
+  onClose: () => void
+  onStart: (file: OpenFileResult) => void
+}
+
+const LANGUAGE_STORAGE_KEY = 'typing-trainer-snippet-language'
+
+/** Extension → label. The extension picks comment parsing and the include-comments default. */
+const SNIPPET_LANGUAGES = [
+  ...LANGUAGES.map((language) => ({ value: language.extensions[0], label: language.name })),
+  { value: 'txt', label: 'Plain text' },
+]
+
+function loadLanguage(): string {
+  try {
+    const saved = localStorage.getItem(LANGUAGE_STORAGE_KEY)
+    if (saved && SNIPPET_LANGUAGES.some((l) => l.value === saved)) return saved
+  } catch {
+    // ignore (disabled storage)
+  }
+  return 'ts'
+}
+
+export function ClipboardSnippetDialog({ opened, onClose, onStart }: ClipboardSnippetDialogProps) {
+  const [language, setLanguage] = useState(loadLanguage)
+  const [fileName, setFileName] = useState(() => `snippet.${loadLanguage()}`)
+  const [content, setContent] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!opened) return
+    let cancelled = false
+    setError(null)
+    window.api.readClipboardText()
+      .then((text) => {
+        if (cancelled) return
+        setContent(text)
+        if (!text.trim()) setError('The clipboard has no text. Paste a snippet below.')
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [opened])
+
+  function changeLanguage(next: string | null) {
+    if (!next) return
+    setLanguage(next)
+    setFileName((prev) => {
+      const dot = prev.lastIndexOf('.')
+      return `${dot > 0 ? prev.slice(0, dot) : prev || 'snippet'}.${next}`
+    })
+    try {
+      localStorage.setItem(LANGUAGE_STORAGE_KEY, next)
+    } catch {
+      // ignore (quota, disabled storage, etc.)
+    }
+  }
+
+  function start() {
+    onStart({
+      filePath: '',
+      fileName: fileName.trim() || `snippet.${language}`,
+      content,
+      encoding: 'utf8',
+    })
+  }
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Practice clipboard contents" size="xl">
+      <Stack gap="sm">
+        <Group grow align="flex-end">
+          <Select label="Language" data={SNIPPET_LANGUAGES} value={language} onChange={changeLanguage} allowDeselect={false} searchable />
+          <TextInput
+            label="File name"
+            description="Its extension decides how comments are detected."
+            value={fileName}
+            onChange={(e) => setFileName(e.currentTarget.value)}
+          />
+        </Group>
+        <Textarea
+          label="Snippet"
+          value={content}
+          onChange={(e) => setContent(e.currentTarget.value)}
+          autosize
+          minRows={6}
+          maxRows={18}
+          styles={{ input: { fontFamily: 'var(--mantine-font-family-monospace)' } }}
+        />
+        {error && <Text size="sm" c="dimmed">{error}</Text>}
+        <Group justify="flex-end">
+          <Button variant="subtle" color="gray" onClick={onClose}>Cancel</Button>
+          <Button onClick={start} disabled={!content.trim()}>Practice</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  )
+}
@@ -0,0 +1,52 @@
+import { Button, Group, Modal, Select, Stack, Text } from '@mantine/core'
+import { useEffect, useState } from 'react'
+import type { EncodingOption } from '../shared/types'
+
+type EncodingPickerProps = {
+  opened: boolean
+  /** Encoding the file is decoded with now. */
+  current: string
+  onClose: () => void
+  onPick: (encoding: string) => void
+}
+
+export function EncodingPicker({ opened, current, onClose, onPick }: EncodingPickerProps) {
+  const [options, setOptions] = useState<EncodingOption[]>([])
+  const [value, setValue] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!opened) return
+    let cancelled = false
+    window.api.listEncodings()
+      .then((list) => {
+        if (!cancelled) setOptions(list)
+      })
+      .catch((error: unknown) => console.error('Failed to list encodings:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [opened])
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Reopen with encoding">
+      <Stack gap="sm">
+        <Text size="sm" c="dimmed">
+          Currently decoded as {current}. The file is read again from disk; the attempt in progress is discarded.
+        </Text>
+        <Select
+          label="Encoding"
+          data={options}
+          value={value}
+          onChange={setValue}
+          searchable
+          placeholder="Pick an encoding"
+          data-autofocus
+        />
+        <Group justify="flex-end">
+          <Button variant="subtle" color="gray" onClick={onClose}>Cancel</Button>
+          <Button disabled={!value} onClick={() => value && onPick(value)}>Reopen</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  )
+}
@@ -0,0 +1,71 @@
+import { notifications } from '@mantine/notifications'
+import { useEffect } from 'react'
+
+function hasFiles(event: DragEvent): boolean {
+  return event.dataTransfer?.types.includes('Files') ?? false
+}
+
+/**
+ * Opens a file dropped anywhere on the window, on any page. Main reads it and answers with
+ * `app:file-opened`, exactly like File → Open. While a file is dragged over the window the root
+ * element gets `tt-drop-active`, which shows the drop hint.
+ */
+export function FileDropTarget() {
+  useEffect(() => {
+    // dragenter/dragleave fire for every child element crossed; only the outermost pair counts.
+    let depth = 0
+    const setActive = (active: boolean) => {
+      document.documentElement.classList.toggle('tt-drop-active', active)
+    }
+
+    const onDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      event.preventDefault()
+      depth += 1
+      setActive(true)
+    }
+    const onDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      // Without this the drop would navigate the window to the file.
+      event.preventDefault()
+      if (event.dataTransfer) event.dataTransfer.dropEffect = 'copy'
+    }
+    const onDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      depth = Math.max(0, depth - 1)
+      if (depth === 0) setActive(false)
+    }
+    const onDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return
+      event.preventDefault()
+      event.stopPropagation()
+      depth = 0
+      setActive(false)
+
+      const files = event.dataTransfer?.files
+      if (!files || files.length === 0) return
+      if (files.length > 1) {
+        notifications.show({ color: 'yellow', title: 'One file at a time', message: `Opening ${files[0].name}; use Open Folder to pick from several files.` })
+      }
+      window.api.openDroppedFile(files[0]).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error)
+        notifications.show({ color: 'red', title: 'Open failed', message })
+      })
+    }
+
+    // Capture phase, so Monaco's own drop handling never sees a dropped file.
+    window.addEventListener('dragenter', onDragEnter, true)
+    window.addEventListener('dragover', onDragOver, true)
+    window.addEventListener('dragleave', onDragLeave, true)
+    window.addEventListener('drop', onDrop, true)
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter, true)
+      window.removeEventListener('dragover', onDragOver, true)
+      window.removeEventListener('dragleave', onDragLeave, true)
+      window.removeEventListener('drop', onDrop, true)
+      setActive(false)
+    }
+  }, [])
+
+  return null
+}
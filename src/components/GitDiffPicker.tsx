@@ -0,0 +1,37 @@
+import { Modal, ScrollArea, Stack, Text, UnstyledButton } from '@mantine/core'
+import type { GitRepo } from '../shared/types'
+
+type GitDiffPickerProps = {
+  repo: GitRepo | null
+  onClose: () => void
+  /** `null` picks the uncommitted working-tree changes. */
+  onPick: (commit: string | null) => void
+}
+
+export function GitDiffPicker({ repo, onClose, onPick }: GitDiffPickerProps) {
+  return (
+    <Modal opened={repo !== null} onClose={onClose} title={repo ? `Practice a diff · ${repo.repoName}` : ''} size="lg">
+      {repo && (
+        <Stack gap="xs">
+          <Text size="xs" c="dimmed">Only added lines are typed; each hunk keeps its file's comment rules. Untracked files are not included.</Text>
+          <ScrollArea.Autosize mah={420}>
+            <Stack gap={2}>
+              <UnstyledButton className="rounded px-2 py-1" onClick={() => onPick(null)}>
+                <Text size="sm" fw={600}>Uncommitted changes</Text>
+                <Text size="xs" c="dimmed">Working tree and index against HEAD</Text>
+              </UnstyledButton>
+              {repo.commits.map((c) => (
+                <UnstyledButton key={c.hash} className="rounded px-2 py-1" onClick={() => onPick(c.hash)} title={c.hash}>
+                  <Text size="sm" className="truncate">
+                    <Text span ff="monospace" c="dimmed">{c.shortHash}</Text> {c.subject}
+                  </Text>
+                  <Text size="xs" c="dimmed">{c.author} · {new Date(c.timeMs).toLocaleString()}</Text>
+                </UnstyledButton>
+              ))}
+            </Stack>
+          </ScrollArea.Autosize>
+        </Stack>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,78 @@
+import type { WeaknessStat } from '../core/weakness'
+
+type KeyCap = {
+  label: string
+  /** Chars this key produces (unshifted, shifted); their stats are pooled. Empty for layout-only keys. */
+  chars: string[]
+  width?: number
+}
+
+function row(base: string, shifted: string): KeyCap[] {
+  return Array.from(base, (ch, i) => ({ label: ch, chars: [ch, shifted[i]] }))
+}
+
+const US_LAYOUT: KeyCap[][] = [
+  row('`1234567890-=', '~!@#$%^&*()_+'),
+  // Tab stays for the layout: segment text is normalized to spaces, so no expected char maps to it.
+  [{ label: 'Tab', chars: [], width: 1.5 }, ...row('qwertyuiop[]\\', 'QWERTYUIOP{}|')],
+  [...row('asdfghjkl;\'', 'ASDFGHJKL:"'), { label: 'Enter', chars: ['\n'], width: 2 }],
+  row('zxcvbnm,./', 'ZXCVBNM<>?'),
+  [{ label: 'Space', chars: [' '], width: 8 }],
+]
+
+/** Error rate at which a key is fully red; most keys sit well below this. */
+const FULL_HEAT_ERROR_RATE = 0.2
+const KEY_UNIT_PX = 36
+
+function heatColor(errorRate: number): string {
+  const t = Math.min(1, errorRate / FULL_HEAT_ERROR_RATE)
+  return `hsla(${Math.round(120 * (1 - t))}, 75%, 45%, 0.55)`
+}
+
+type KeyboardHeatmapProps = {
+  stats: WeaknessStat[]
+}
+
+export function KeyboardHeatmap({ stats }: KeyboardHeatmapProps) {
+  const byChar = new Map(stats.map((s) => [s.key, s]))
+
+  return (
+    <div className="flex flex-col gap-1 overflow-x-auto">
+      {US_LAYOUT.map((keys, r) => (
+        <div key={r} className="flex gap-1" style={{ paddingLeft: r === 3 ? KEY_UNIT_PX * 0.75 : 0 }}>
+          {keys.map((key) => {
+            let attempts = 0
+            let errors = 0
+            for (const ch of key.chars) {
+              const s = byChar.get(ch)
+              if (!s) continue
+              attempts += s.attempts
+              errors += s.errors
+            }
+            const errorRate = attempts > 0 ? errors / attempts : 0
+            const title = key.chars.length === 0
+              ? `${key.label}: not tracked (indentation is typed as spaces)`
+              : attempts > 0
+                ? `${key.label}: ${(errorRate * 100).toFixed(1)}% errors over ${attempts} keystrokes`
+                : `${key.label}: no data`
+            return (
+              <div
+                key={key.label}
+                title={title}
+                className="tt-border flex items-center justify-center rounded border font-mono text-xs"
+                style={{
+                  width: KEY_UNIT_PX * (key.width ?? 1),
+                  height: KEY_UNIT_PX,
+                  flex: '0 0 auto',
+                  background: attempts > 0 ? heatColor(errorRate) : undefined,
+                }}
+              >
+                {key.label}
+              </div>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import Editor, { type BeforeMount, type OnMount } from '@monaco-editor/react'
+import { memo } from 'react'
+import type * as Monaco from 'monaco-editor'
+
+export const MonacoReadonly = memo(function MonacoReadonly({
+  value,
+  onMount,
+  beforeMount,
+  options,
+  theme,
+}: {
+  value: string
+  onMount: OnMount
+  beforeMount: BeforeMount
+  options: Monaco.editor.IStandaloneEditorConstructionOptions
+  theme: string
+}) {
+  return (
+    <Editor
+      height="100%"
+      defaultLanguage="plaintext"
+      value={value}
+      onMount={onMount}
+      beforeMount={beforeMount}
+      options={options}
+      theme={theme}
+    />
+  )
+})
@@ -0,0 +1,139 @@
+import { Badge, Drawer, Group, SegmentedControl, Stack, Switch, Table, Text } from '@mantine/core'
+import { useEffect, useMemo, useState } from 'react'
+import type { Attempt, TextSegment } from '../shared/types'
+
+type SegmentPickerProps = {
+  opened: boolean
+  onClose: () => void
+  filePath: string
+  segments: TextSegment[]
+  currentIndex: number
+  onPick: (segmentIndex: number) => void
+}
+
+type SegmentOrder = 'file' | 'hardest'
+
+type SegmentRow = {
+  segment: TextSegment
+  bestWpm: number | null
+}
+
+/** Best WPM per segment, matched by line range and (when recorded) the exact text. */
+function bestWpmBySegment(attempts: Attempt[], filePath: string, segments: TextSegment[]): (number | null)[] {
+  return segments.map((segment) => {
+    let best: number | null = null
+    for (const a of attempts) {
+      if (a.filePath !== filePath) continue
+      if (a.segmentStartLine !== segment.startLine || a.segmentEndLine !== segment.endLine) continue
+      if (a.replay && a.replay.text !== segment.text) continue
+      if (best === null || a.wpm > best) best = a.wpm
+    }
+    return best
+  })
+}
+
+function difficultyColor(score: number): string {
+  if (score >= 67) return 'red'
+  if (score >= 34) return 'yellow'
+  return 'green'
+}
+
+export function SegmentPicker({ opened, onClose, filePath, segments, currentIndex, onPick }: SegmentPickerProps) {
+  const [bestWpms, setBestWpms] = useState<(number | null)[]>([])
+  const [order, setOrder] = useState<SegmentOrder>('file')
+  const [hideCompleted, setHideCompleted] = useState(false)
+
+  useEffect(() => {
+    if (!opened) return
+    let cancelled = false
+    window.api.listAttempts()
+      .then((attempts) => {
+        if (!cancelled) setBestWpms(bestWpmBySegment(attempts, filePath, segments))
+      })
+      .catch((error) => {
+        console.warn('Failed to load attempts for segment picker:', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath, opened, segments])
+
+  const rows = useMemo(() => {
+    const all: SegmentRow[] = segments.map((segment, i) => ({ segment, bestWpm: bestWpms[i] ?? null }))
+    const visible = hideCompleted ? all.filter((r) => r.bestWpm === null) : all
+    if (order === 'hardest') {
+      visible.sort((a, b) => (b.segment.difficulty?.score ?? 0) - (a.segment.difficulty?.score ?? 0) || a.segment.index - b.segment.index)
+    }
+    return visible
+  }, [bestWpms, hideCompleted, order, segments])
+
+  const completedCount = bestWpms.filter((wpm) => wpm !== null).length
+
+  return (
+    <Drawer opened={opened} onClose={onClose} title="Segments" position="right" size="md">
+      <Stack gap="sm">
+        <Group justify="space-between" wrap="wrap">
+          <SegmentedControl
+            size="xs"
+            value={order}
+            onChange={(value) => setOrder(value as SegmentOrder)}
+            data={[
+              { value: 'file', label: 'File order' },
+              { value: 'hardest', label: 'Hardest first' },
+            ]}
+          />
+          <Switch
+            size="xs"
+            label="Hide completed"
+            checked={hideCompleted}
+            onChange={(event) => setHideCompleted(event.currentTarget.checked)}
+          />
+        </Group>
+        <Text size="xs" c="dimmed">{completedCount} of {segments.length} segments completed</Text>
+
+        <Table highlightOnHover>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>#</Table.Th>
+              <Table.Th>Lines</Table.Th>
+              <Table.Th>Difficulty</Table.Th>
+              <Table.Th>Best WPM</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {rows.map(({ segment, bestWpm }) => {
+              const difficulty = segment.difficulty
+              return (
+                <Table.Tr
+                  key={segment.index}
+                  style={{ cursor: 'pointer', fontWeight: segment.index === currentIndex ? 700 : undefined }}
+                  onClick={() => {
+                    onPick(segment.index)
+                    onClose()
+                  }}
+                >
+                  <Table.Td>{segment.index + 1}</Table.Td>
+                  <Table.Td>{segment.startLine}-{segment.endLine}</Table.Td>
+                  <Table.Td>
+                    {difficulty ? (
+                      <Badge
+                        variant="light"
+                        color={difficultyColor(difficulty.score)}
+                        title={`Symbols ${(difficulty.symbolDensity * 100).toFixed(0)}% · identifiers ${difficulty.meanIdentifierLength.toFixed(1)} chars · depth ${difficulty.maxDepth} · ${difficulty.typeableChars} chars`}
+                      >
+                        {difficulty.score}
+                      </Badge>
+                    ) : '–'}
+                  </Table.Td>
+                  <Table.Td>
+                    {bestWpm === null ? <Text size="sm" c="dimmed">not done</Text> : `✓ ${bestWpm.toFixed(1)}`}
+                  </Table.Td>
+                </Table.Tr>
+              )
+            })}
+          </Table.Tbody>
+        </Table>
+      </Stack>
+    </Drawer>
+  )
+}
@@ -0,0 +1,179 @@
+import type * as Monaco from 'monaco-editor'
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker'
+import type { TypingEngineState } from '../core/typingEngine'
+import { pendingDedents } from '../core/typingEngine'
+
+type MonacoEnvironment = {
+  getWorker: (moduleId: string, label: string) => Worker
+}
+
+const monacoGlobal = globalThis as unknown as { MonacoEnvironment?: MonacoEnvironment }
+monacoGlobal.MonacoEnvironment ??= { getWorker: () => new EditorWorker() }
+
+export const TT_THEME_LIGHT = 'tt-vs'
+export const TT_THEME_DARK = 'tt-vs-dark'
+
+let typingThemesDefined = false
+export function ensureTypingThemes(monaco: typeof import('monaco-editor')) {
+  if (typingThemesDefined) return
+  typingThemesDefined = true
+
+  const lightForeground = '#000000'
+  const darkForeground = '#D4D4D4'
+
+  const bracketColors = (fg: string) => ({
+    'editorBracketHighlight.foreground1': fg,
+    'editorBracketHighlight.foreground2': fg,
+    'editorBracketHighlight.foreground3': fg,
+    'editorBracketHighlight.foreground4': fg,
+    'editorBracketHighlight.foreground5': fg,
+    'editorBracketHighlight.foreground6': fg,
+    'editorBracketHighlight.unexpectedBracket.foreground': fg,
+  })
+
+  monaco.editor.defineTheme(TT_THEME_LIGHT, {
+    base: 'vs',
+    inherit: true,
+    rules: [],
+    colors: bracketColors(lightForeground),
+  })
+
+  monaco.editor.defineTheme(TT_THEME_DARK, {
+    base: 'vs-dark',
+    inherit: true,
+    rules: [],
+    colors: bracketColors(darkForeground),
+  })
+}
+
+export const READONLY_EDITOR_OPTIONS: Monaco.editor.IStandaloneEditorConstructionOptions = {
+  readOnly: true,
+  domReadOnly: true,
+  // We render our own cursor/position indicator via decorations/content widgets.
+  // Hide Monaco's native cursor to avoid occasional focus-related "ghost" caret rendering.
+  cursorWidth: 0,
+  hideCursorInOverviewRuler: true,
+  minimap: { enabled: false },
+  scrollBeyondLastLine: false,
+  wordWrap: 'off',
+  renderWhitespace: 'all',
+  renderLineHighlight: 'none',
+  renderValidationDecorations: 'off',
+  occurrencesHighlight: 'off',
+  selectionHighlight: false,
+  folding: false,
+  bracketPairColorization: { enabled: false },
+  guides: { bracketPairs: false },
+  matchBrackets: 'never',
+  glyphMargin: false,
+  overviewRulerBorder: false,
+  overviewRulerLanes: 0,
+  hover: { enabled: false },
+  parameterHints: { enabled: false },
+  quickSuggestions: false,
+  suggestOnTriggerCharacters: false,
+  contextmenu: false,
+  unicodeHighlight: {
+    ambiguousCharacters: false,
+    invisibleCharacters: false,
+    nonBasicASCII: false,
+  },
+}
+
+export type ProgressDecorations = {
+  decorations: Monaco.editor.IModelDeltaDecoration[]
+  showEnterHint: boolean
+  /** Auto-indent wants Backspace (dedent) before the char at the cursor. */
+  showDedentHint: boolean
+  visualCursorOffset: number
+}
+
+/**
+ * Builds the dynamic decorations (correct prefix, first error, collateral run, cursor) for
+ * the current engine state. The set is constant-size except for mistakes left in place
+ * under the free-flow policy and pending auto-closed brackets, which get one decoration each.
+ */
+export function buildProgressDecorations(
+  state: TypingEngineState,
+  model: Monaco.editor.ITextModel,
+  monaco: typeof import('monaco-editor'),
+): ProgressDecorations {
+  const textLength = state.text.length
+  const decos: Monaco.editor.IModelDeltaDecoration[] = []
+
+  const clamp = (value: number) => Math.max(0, Math.min(textLength, value))
+  const makeRange = (start: number, end: number) => {
+    const a = clamp(start)
+    const b = clamp(end)
+    const startPos = model.getPositionAt(a)
+    const endPos = model.getPositionAt(b)
+    return new monaco.Range(startPos.lineNumber, startPos.column, endPos.lineNumber, endPos.column)
+  }
+
+  const correctEnd = state.errorActive ? state.firstErrorIndex : state.typedEnd
+  if (correctEnd > 0) {
+    decos.push({
+      range: makeRange(0, correctEnd),
+      options: { inlineClassName: 'tt-mark-correct' },
+    })
+  }
+
+  for (const pos of state.freeErrorPositions) {
+    decos.push({
+      range: makeRange(pos, pos + 1),
+      options: { inlineClassName: 'tt-mark-incorrect' },
+    })
+  }
+
+  for (const pos of state.autoClosePending) {
+    if (pos < state.cursor) continue
+    decos.push({
+      range: makeRange(pos, pos + 1),
+      options: { inlineClassName: 'tt-auto-closed' },
+    })
+  }
+
+  if (state.errorActive && state.firstErrorIndex >= 0 && state.firstErrorIndex < textLength) {
+    decos.push({
+      range: makeRange(state.firstErrorIndex, state.firstErrorIndex + 1),
+      options: { inlineClassName: 'tt-mark-incorrect' },
+    })
+
+    const collateralStart = state.firstErrorIndex + 1
+    const collateralEnd = state.cursor
+    if (collateralEnd > collateralStart && collateralStart < textLength) {
+      decos.push({
+        range: makeRange(collateralStart, collateralEnd),
+        options: { inlineClassName: 'tt-mark-collateral' },
+      })
+    }
+  }
+
+  const expectedChar = state.cursor < textLength ? state.text[state.cursor] : null
+  const showEnterHint = expectedChar === '\n'
+  const showDedentHint = !state.errorActive && pendingDedents(state) > 0
+  const visualCursorOffset = showEnterHint && state.typedEnd < state.cursor ? state.typedEnd : state.cursor
+
+  if (state.cursor < textLength) {
+    if (showEnterHint && state.typedEnd < state.cursor) {
+      const pos = model.getPositionAt(clamp(visualCursorOffset))
+      decos.push({
+        range: new monaco.Range(pos.lineNumber, pos.column, pos.lineNumber, pos.column),
+        options: { afterContentClassName: 'tt-cursor-after' },
+      })
+    } else {
+      decos.push({
+        range: makeRange(state.cursor, state.cursor + 1),
+        options: { inlineClassName: 'tt-cursor-char' },
+      })
+    }
+  } else {
+    const pos = model.getPositionAt(textLength)
+    decos.push({
+      range: new monaco.Range(pos.lineNumber, pos.column, pos.lineNumber, pos.column),
+      options: { afterContentClassName: 'tt-cursor-after' },
+    })
+  }
+
+  return { decorations: decos, showEnterHint, showDedentHint, visualCursorOffset }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { looksBinary, sniffUtf16 } from './binarySniff'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+const ascii = (text: string) => new TextEncoder().encode(text)
+
+describe('binarySniff', () => {
+  it('treats text, including tabs, CRLF and ANSI escapes, as text', () => {
+    expect(looksBinary(ascii('const a = 1\r\n\tb()\n'))).toBe(false)
+    expect(looksBinary(ascii('\u001b[31mred\u001b[0m\n'))).toBe(false)
+    expect(looksBinary(ascii('文字コード\n'))).toBe(false)
+    expect(looksBinary(new Uint8Array())).toBe(false)
+  })
+
+  it('flags NUL bytes and control-heavy data', () => {
+    expect(looksBinary(bytes(0x50, 0x4B, 0x03, 0x04, 0x00, 0x00))).toBe(true)
+    expect(looksBinary(bytes(0x01, 0x02, 0x03, 0x41, 0x42, 0x43, 0x44, 0x45, 0x46, 0x47))).toBe(true)
+    expect(looksBinary(ascii(`${'x'.repeat(40)}\u0007`))).toBe(false)
+  })
+
+  it('accepts UTF-16 with a BOM despite its NULs', () => {
+    expect(looksBinary(bytes(0xFF, 0xFE, 0x61, 0x00, 0x0A, 0x00))).toBe(false)
+    expect(looksBinary(bytes(0xFE, 0xFF, 0x00, 0x61, 0x00, 0x0A))).toBe(false)
+  })
+
+  it('recognises BOM-less UTF-16 by its alternating NULs', () => {
+    const le = Uint8Array.from(Buffer.from('const a = 1\n', 'utf16le'))
+    const be = Uint8Array.from(le).map((_, i, all) => all[i ^ 1])
+    expect(sniffUtf16(le)).toBe('utf16le')
+    expect(sniffUtf16(be)).toBe('utf16be')
+    expect(looksBinary(le)).toBe(false)
+    expect(looksBinary(be)).toBe(false)
+    expect(sniffUtf16(bytes(0x50, 0x4B, 0x03, 0x04, 0x00, 0x00, 0x14, 0x00))).toBeNull()
+    expect(sniffUtf16(bytes(0xFF, 0xFE, 0x61, 0x00))).toBeNull()
+  })
+})
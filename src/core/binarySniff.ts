@@ -0,0 +1,51 @@
+const BINARY_SNIFF_BYTES = 8_000
+/** Share of control bytes above which a NUL-free sample still counts as binary. */
+const MAX_CONTROL_RATIO = 0.1
+
+function hasUtf16Bom(buffer: Uint8Array): boolean {
+  return buffer.length >= 2 && ((buffer[0] === 0xFF && buffer[1] === 0xFE) || (buffer[0] === 0xFE && buffer[1] === 0xFF))
+}
+
+/** C0 controls (and DEL) that don't occur in text; tab, LF, CR, form feed and ESC (ANSI colours in logs) do. */
+function isControlByte(byte: number): boolean {
+  if (byte === 0x09 || byte === 0x0A || byte === 0x0C || byte === 0x0D || byte === 0x1B) return false
+  return byte < 0x20 || byte === 0x7F
+}
+
+/** Share of NUL high bytes (and at most NUL low bytes) that makes a BOM-less sample UTF-16. */
+const MIN_UTF16_NUL_RATIO = 0.3
+const MAX_UTF16_STRAY_NUL_RATIO = 0.05
+
+/**
+ * UTF-16 without a BOM, told by its NULs: mostly-ASCII text has a NUL in every other byte,
+ * odd ones for little endian, even ones for big endian. Null when there's a BOM or no such pattern.
+ */
+export function sniffUtf16(buffer: Uint8Array): 'utf16le' | 'utf16be' | null {
+  if (hasUtf16Bom(buffer)) return null
+  const pairs = Math.floor(Math.min(buffer.length, BINARY_SNIFF_BYTES) / 2)
+  if (pairs === 0) return null
+  let evenNul = 0
+  let oddNul = 0
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (buffer[i] === 0) evenNul += 1
+    if (buffer[i + 1] === 0) oddNul += 1
+  }
+  if (oddNul / pairs >= MIN_UTF16_NUL_RATIO && evenNul / pairs <= MAX_UTF16_STRAY_NUL_RATIO) return 'utf16le'
+  if (evenNul / pairs >= MIN_UTF16_NUL_RATIO && oddNul / pairs <= MAX_UTF16_STRAY_NUL_RATIO) return 'utf16be'
+  return null
+}
+
+/**
+ * Git's heuristic (a NUL byte near the start means binary), plus a ratio check for NUL-free
+ * formats. UTF-16 text has NULs everywhere, so a UTF-16 BOM or the UTF-16 NUL pattern means text.
+ */
+export function looksBinary(buffer: Uint8Array): boolean {
+  if (hasUtf16Bom(buffer) || sniffUtf16(buffer)) return false
+  const end = Math.min(buffer.length, BINARY_SNIFF_BYTES)
+  let control = 0
+  for (let i = 0; i < end; i += 1) {
+    if (buffer[i] === 0) return true
+    if (isControlByte(buffer[i])) control += 1
+  }
+  return end > 0 && control / end > MAX_CONTROL_RATIO
+}
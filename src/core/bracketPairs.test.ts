@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { computeAutoClosePairs } from './bracketPairs'
+
+function pairsOf(text: string, skipRanges = [] as { start: number; end: number }[]) {
+  const pairs = computeAutoClosePairs(text, skipRanges)
+  const out: [number, number][] = []
+  pairs.forEach((close, open) => {
+    if (close >= 0) out.push([open, close])
+  })
+  return out
+}
+
+describe('computeAutoClosePairs', () => {
+  it('pairs nested brackets across lines', () => {
+    expect(pairsOf('f(a[0]) {\n}')).toEqual([[1, 6], [3, 5], [8, 10]])
+  })
+
+  it('pairs quotes on the same line and ignores brackets inside them', () => {
+    expect(pairsOf('x("(", \'\\\'\')')).toEqual([[1, 11], [2, 4], [7, 10]])
+  })
+
+  it('leaves apostrophes without a partner on their line unpaired', () => {
+    expect(pairsOf("don't\n'a'")).toEqual([[6, 8]])
+  })
+
+  it('skips stray closers and ignores skipped ranges', () => {
+    expect(pairsOf('(]) /* ( */')).toEqual([[0, 2]])
+    expect(pairsOf('(/*)*/)', [{ start: 1, end: 6 }])).toEqual([[0, 6]])
+  })
+})
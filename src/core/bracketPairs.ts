@@ -0,0 +1,65 @@
+import type { TextRange } from '../shared/types'
+import { mergeRanges } from './skipRanges'
+
+const CLOSER_FOR: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+}
+
+const CLOSERS = new Set(Object.values(CLOSER_FOR))
+
+function isQuote(ch: string): boolean {
+  return ch === '"' || ch === '\''
+}
+
+/**
+ * Maps each auto-closable opener (`(`, `[`, `{`, `"`, `'`) to the index of its partner, or -1.
+ * Brackets pair across lines by nesting; quotes pair only on the same line (honoring `\` escapes),
+ * so apostrophes in prose or lifetimes stay unpaired. Chars inside `skipRanges` are ignored.
+ */
+export function computeAutoClosePairs(text: string, skipRanges: TextRange[] = []): number[] {
+  const pairs = Array.from({ length: text.length }, () => -1)
+
+  const skipMask = new Uint8Array(text.length)
+  for (const r of mergeRanges(skipRanges, text.length)) skipMask.fill(1, r.start, r.end)
+
+  const stack: number[] = []
+  for (let i = 0; i < text.length; i += 1) {
+    if (skipMask[i]) continue
+    const ch = text[i]
+
+    if (isQuote(ch)) {
+      let j = i + 1
+      let escaped = false
+      while (j < text.length && text[j] !== '\n') {
+        const c = text[j]
+        if (escaped) escaped = false
+        else if (c === '\\') escaped = true
+        else if (c === ch) break
+        j += 1
+      }
+      if (j < text.length && text[j] === ch && !skipMask[j]) {
+        pairs[i] = j
+        i = j
+      }
+      continue
+    }
+
+    if (CLOSER_FOR[ch]) {
+      stack.push(i)
+      continue
+    }
+
+    if (CLOSERS.has(ch)) {
+      // Recover from stray closers by unwinding to the nearest matching opener, if any.
+      let k = stack.length - 1
+      while (k >= 0 && CLOSER_FOR[text[stack[k]]] !== ch) k -= 1
+      if (k < 0) continue
+      pairs[stack[k]] = i
+      stack.length = k
+    }
+  }
+
+  return pairs
+}
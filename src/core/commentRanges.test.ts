@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { parseCommentRangesForFile } from './commentRanges'
+import { languageForFile } from './languages'
+import { stripCommentsForFile } from './stripComments'
+
+function commentTexts(text: string, fileName: string): string[] {
+  return parseCommentRangesForFile(text, fileName).map((r) => text.slice(r.start, r.end))
+}
+
+describe('commentRanges', () => {
+  it('maps extensions through the language registry', () => {
+    expect(languageForFile('src/App.TSX')?.id).toBe('typescript')
+    expect(languageForFile('lib.rs')?.id).toBe('rust')
+    expect(languageForFile('notes.txt')).toBeNull()
+    expect(languageForFile('Makefile')).toBeNull()
+  })
+
+  it('finds C-like comments outside strings', () => {
+    const text = 'const a = "// no" // yes\n/* block\n */ b(\'/*\')\nc(`//`)'
+    expect(commentTexts(text, 'a.ts')).toEqual(['// yes', '/* block\n */'])
+  })
+
+  it('nests block comments only where the language does', () => {
+    const text = '/* a /* b */ c */ d'
+    expect(commentTexts(text, 'a.rs')).toEqual(['/* a /* b */ c */'])
+    expect(commentTexts(text, 'a.c')).toEqual(['/* a /* b */'])
+  })
+
+  it('treats Python triple-quoted strings as comments', () => {
+    const text = 'def f():\n    """Doc # not a comment."""\n    return "#" # tail'
+    expect(commentTexts(text, 'f.py')).toEqual(['"""Doc # not a comment."""', '# tail'])
+  })
+
+  it('runs an unclosed comment to the end and ignores unknown files', () => {
+    expect(commentTexts('x /* open', 'a.java')).toEqual(['/* open'])
+    expect(commentTexts('x // y', 'a.txt')).toEqual([])
+  })
+
+  it('strips comments but keeps their line breaks', () => {
+    expect(stripCommentsForFile('a // x\r\nb /* y\n z */ c\n', 'a.go')).toBe('a\r\nb\n c\n')
+    expect(stripCommentsForFile('a // x\n', 'a.txt')).toBe('a // x\n')
+  })
+
+  it('handles Ruby # and =begin/=end at column 0', () => {
+    const text = 'x = "#{y}" # note\n=begin\nblock\n=end trailing\n  =begin not\nz'
+    expect(commentTexts(text, 'a.rb')).toEqual(['# note', '=begin\nblock\n=end trailing'])
+  })
+
+  it('starts shell and YAML # comments only at a word', () => {
+    expect(commentTexts('echo $# ${#a} a#b # real\n# top', 'run.sh')).toEqual(['# real', '# top'])
+    expect(commentTexts('url: http://a/#x\nkey: \'v # no\' # yes', 'c.yaml')).toEqual(['# yes'])
+  })
+
+  it('parses SQL and Lua -- comments and their block forms', () => {
+    expect(commentTexts('SELECT \'--x\', \'it\'\'s\' -- why\n/* b */ FROM t', 'q.sql')).toEqual(['-- why', '/* b */'])
+    expect(commentTexts('s = "--" -- c\n--[[ long\n]] x = [[--not]] --[=[ a ]] b ]=]', 'm.lua')).toEqual(['-- c', '--[[ long\n]]', '--[=[ a ]] b ]=]'])
+  })
+
+  it('nests Haskell {- -} comments', () => {
+    expect(commentTexts('f x = x -- id\n{- a {- b -} c -} g', 'Main.hs')).toEqual(['-- id', '{- a {- b -} c -}'])
+  })
+
+  it('parses markup and stylesheet comments', () => {
+    expect(commentTexts('<p>a</p><!-- one\ntwo --><br/>', 'i.html')).toEqual(['<!-- one\ntwo -->'])
+    expect(commentTexts('a { content: "/*"; } /* c */', 's.css')).toEqual(['/* c */'])
+    expect(commentTexts('a { b: c; } // line', 's.scss')).toEqual(['// line'])
+  })
+
+  it('parses TOML, ini and PowerShell comments', () => {
+    expect(commentTexts('a = "#" # c\nb = """\n# in string\n"""', 'x.toml')).toEqual(['# c'])
+    expect(commentTexts('; top\n[s]\nk=v;not\n  # indented', 'x.ini')).toEqual(['; top', '# indented'])
+    expect(commentTexts('$a = "`"#" # c\n<# block\n#> Get-Item', 'x.ps1')).toEqual(['# c', '<# block\n#>'])
+  })
+})
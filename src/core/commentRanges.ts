@@ -1,227 +1,133 @@
 import type { TextRange } from '../shared/types'
-
-type CommentMode = 'c-like' | 'python' | 'none'
-
-const C_LIKE_EXTS = new Set([
-  'c',
-  'h',
-  'cpp',
-  'cc',
-  'hpp',
-  'java',
-  'js',
-  'ts',
-  'tsx',
-  'go',
-  'rs',
-  'cs',
-  'kt',
-  'swift',
-  'php',
-  'rb',
-  'scala',
-  'm',
-  'mm',
-])
-
-function getFileExtensionLower(fileName: string): string {
-  const lower = fileName.toLowerCase()
-  const dot = lower.lastIndexOf('.')
-  return dot >= 0 ? lower.slice(dot + 1) : ''
-}
-
-function detectCommentMode(fileName: string): CommentMode {
-  const ext = getFileExtensionLower(fileName)
-  if (ext === 'py') return 'python'
-  return C_LIKE_EXTS.has(ext) ? 'c-like' : 'none'
-}
+import { languageForFile, type BlockCommentSyntax, type LanguageSpec, type StringSyntax } from './languages'
+import { LEX_RULES, type LexMatch, type LexRuleImpl } from './lexRules'
 
 export function parseCommentRangesForFile(text: string, fileName: string): TextRange[] {
-  const mode = detectCommentMode(fileName)
-  if (mode === 'none') return []
-  return mode === 'python' ? parsePythonCommentRanges(text) : parseCLikeCommentRanges(text)
+  const language = languageForFile(fileName)
+  return language ? parseCommentRanges(text, language) : []
 }
 
-function parseCLikeCommentRanges(text: string): TextRange[] {
+/**
+ * Comment ranges of `text` per the language's lex rules, comment and string syntax (tried in
+ * that order); an unclosed comment runs to the end.
+ */
+export function parseCommentRanges(text: string, language: LanguageSpec): TextRange[] {
   const ranges: TextRange[] = []
-
-  type State = 'code' | 'lineComment' | 'blockComment' | 'singleQuote' | 'doubleQuote' | 'template'
-  let state: State = 'code'
-  let escaped = false
-  let start = -1
-
-  for (let i = 0; i < text.length; i += 1) {
-    const ch = text[i]
-    const next = i + 1 < text.length ? text[i + 1] : ''
-
-    if (state === 'lineComment') {
-      if (ch === '\n') {
-        ranges.push({ start, end: i })
-        start = -1
-        state = 'code'
-      }
-      continue
-    }
-
-    if (state === 'blockComment') {
-      if (ch === '*' && next === '/') {
-        i += 1
-        ranges.push({ start, end: i + 1 })
-        start = -1
-        state = 'code'
-      }
-      continue
-    }
-
-    if (state === 'singleQuote' || state === 'doubleQuote' || state === 'template') {
-      if (escaped) {
-        escaped = false
-        continue
-      }
-      if (ch === '\\') {
-        escaped = true
-        continue
-      }
-      if ((state === 'singleQuote' && ch === '\'') || (state === 'doubleQuote' && ch === '"') || (state === 'template' && ch === '`')) {
-        state = 'code'
-      }
-      continue
-    }
-
-    // state === 'code'
-    if (ch === '/' && next === '/') {
-      start = i
-      state = 'lineComment'
+  const { blockComments, lineComments, strings } = language
+  const rules = (language.lexRules ?? []).map((id) => LEX_RULES[id])
+  // Most chars can't start any token; checking the first char keeps the scan cheap.
+  const starters = new Set([
+    ...[...blockComments.map((b) => b.open), ...lineComments, ...strings.map((s) => s.open)].map((t) => t[0]),
+    ...rules.flatMap((rule) => [...rule.starters]),
+  ])
+  // Heredoc bodies start on the line after their opener, so they are skipped once the scan gets there.
+  let pendingBody: TextRange | null = null
+
+  let i = 0
+  while (i < text.length) {
+    if (pendingBody && i >= pendingBody.start) {
+      i = Math.max(i, pendingBody.end)
+      pendingBody = null
+      continue
+    }
+    if (!starters.has(text[i])) {
       i += 1
       continue
     }
 
-    if (ch === '/' && next === '*') {
-      start = i
-      state = 'blockComment'
-      i += 1
+    const lexed = lexAt(text, i, rules, pendingBody?.end ?? i)
+    if (lexed) {
+      if (lexed.body) pendingBody = pendingBody ? { start: pendingBody.start, end: lexed.body.end } : lexed.body
+      i = lexed.end
       continue
     }
 
-    if (ch === '\'') {
-      state = 'singleQuote'
-      escaped = false
+    const block = blockComments.find((b) => text.startsWith(b.open, i) && (!b.lineStart || isLineStart(text, i)))
+    if (block) {
+      const end = skipBlockComment(text, i, block)
+      ranges.push({ start: i, end })
+      i = end
       continue
     }
 
-    if (ch === '"') {
-      state = 'doubleQuote'
-      escaped = false
+    if (lineComments.some((token) => text.startsWith(token, i)) && lineCommentAllowed(text, i, language.lineCommentsAt)) {
+      const newline = text.indexOf('\n', i)
+      const end = newline >= 0 ? newline : text.length
+      ranges.push({ start: i, end })
+      i = end
       continue
     }
 
-    if (ch === '`') {
-      state = 'template'
-      escaped = false
-      continue
-    }
+    const string = strings.find((s) => text.startsWith(s.open, i))
+    i = string ? skipString(text, i, string) : i + 1
   }
 
-  if (state === 'lineComment' && start >= 0) ranges.push({ start, end: text.length })
-  if (state === 'blockComment' && start >= 0) ranges.push({ start, end: text.length })
-
   return ranges
 }
 
-function parsePythonCommentRanges(text: string): TextRange[] {
-  const ranges: TextRange[] = []
-
-  type State = 'code' | 'lineComment' | 'singleQuote' | 'doubleQuote' | 'tripleSingle' | 'tripleDouble'
-  let state: State = 'code'
-  let escaped = false
-  let start = -1
-
-  const startsWithAt = (needle: string, at: number) => text.slice(at, at + needle.length) === needle
-
-  for (let i = 0; i < text.length; i += 1) {
-    const ch = text[i]
-
-    if (state === 'lineComment') {
-      if (ch === '\n') {
-        ranges.push({ start, end: i })
-        start = -1
-        state = 'code'
-      }
-      continue
-    }
+function lexAt(text: string, at: number, rules: LexRuleImpl[], bodyFrom: number): LexMatch | null {
+  for (const rule of rules) {
+    if (!rule.starters.includes(text[at])) continue
+    const lexed = rule.match(text, at, bodyFrom)
+    if (lexed) return lexed
+  }
+  return null
+}
 
-    if (state === 'tripleSingle') {
-      if (startsWithAt("'''", i)) {
-        i += 2
-        ranges.push({ start, end: i + 1 })
-        start = -1
-        state = 'code'
-      }
-      continue
-    }
+function isLineStart(text: string, at: number): boolean {
+  return at === 0 || text[at - 1] === '\n'
+}
 
-    if (state === 'tripleDouble') {
-      if (startsWithAt('"""', i)) {
-        i += 2
-        ranges.push({ start, end: i + 1 })
-        start = -1
-        state = 'code'
-      }
-      continue
-    }
+function lineCommentAllowed(text: string, at: number, where: LanguageSpec['lineCommentsAt']): boolean {
+  if (!where || at === 0) return true
+  const prev = text[at - 1]
+  if (where === 'word') return /\s/.test(prev)
+  for (let i = at - 1; i >= 0 && text[i] !== '\n'; i -= 1) {
+    if (text[i] !== ' ' && text[i] !== '\t') return false
+  }
+  return true
+}
 
-    if (state === 'singleQuote' || state === 'doubleQuote') {
-      if (escaped) {
-        escaped = false
-        continue
-      }
-      if (ch === '\\') {
-        escaped = true
-        continue
+function skipBlockComment(text: string, start: number, block: BlockCommentSyntax): number {
+  if (block.lineStart) {
+    let i = text.indexOf('\n', start)
+    while (i >= 0) {
+      if (text.startsWith(block.close, i + 1)) {
+        const lineEnd = text.indexOf('\n', i + 1)
+        return lineEnd >= 0 ? lineEnd : text.length
       }
-      if ((state === 'singleQuote' && ch === '\'') || (state === 'doubleQuote' && ch === '"')) {
-        state = 'code'
-      }
-      continue
+      i = text.indexOf('\n', i + 1)
     }
+    return text.length
+  }
 
-    // state === 'code'
-    if (startsWithAt("'''", i)) {
-      start = i
-      state = 'tripleSingle'
-      i += 2
-      continue
+  let depth = 1
+  let i = start + block.open.length
+  while (i < text.length) {
+    if (text.startsWith(block.close, i)) {
+      i += block.close.length
+      depth -= 1
+      if (depth === 0) return i
+    } else if (block.nests && text.startsWith(block.open, i)) {
+      i += block.open.length
+      depth += 1
+    } else {
+      i += 1
     }
+  }
+  return text.length
+}
 
-    if (startsWithAt('"""', i)) {
-      start = i
-      state = 'tripleDouble'
+function skipString(text: string, start: number, string: StringSyntax): number {
+  let i = start + string.open.length
+  while (i < text.length) {
+    if (string.escape !== null && text[i] === string.escape) {
       i += 2
-      continue
-    }
-
-    if (ch === '#') {
-      start = i
-      state = 'lineComment'
-      continue
-    }
-
-    if (ch === '\'') {
-      state = 'singleQuote'
-      escaped = false
-      continue
-    }
-
-    if (ch === '"') {
-      state = 'doubleQuote'
-      escaped = false
-      continue
+    } else if (text.startsWith(string.close, i)) {
+      return i + string.close.length
+    } else {
+      i += 1
     }
   }
-
-  if (state === 'lineComment' && start >= 0) ranges.push({ start, end: text.length })
-  if ((state === 'tripleSingle' || state === 'tripleDouble') && start >= 0) ranges.push({ start, end: text.length })
-
-  return ranges
+  return text.length
 }
-
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { computeSegmentDifficulty } from './difficulty'
+
+describe('segment difficulty', () => {
+  it('measures symbols, identifiers and nesting over typeable chars', () => {
+    const d = computeSegmentDifficulty('if (a[i]) {\n  go()\n}')
+    expect(d.typeableChars).toBe(14)
+    expect(d.symbolDensity).toBeCloseTo(8 / 14)
+    expect(d.meanIdentifierLength).toBeCloseTo(6 / 4)
+    expect(d.maxDepth).toBe(2)
+  })
+
+  it('ranks dense nested code above prose', () => {
+    const prose = computeSegmentDifficulty('the quick brown fox jumps over the lazy dog\nand keeps on running')
+    const code = computeSegmentDifficulty('fn parse<T>(s: &str) -> Result<Vec<T>, E> { s.split(|c| c == \',\').map(|x| x.parse::<T>()).collect() }')
+    expect(code.score).toBeGreaterThan(prose.score)
+    expect(code.score).toBeLessThanOrEqual(100)
+    expect(computeSegmentDifficulty('').score).toBe(0)
+  })
+
+  it('ignores skipped ranges such as comments', () => {
+    const text = 'x = 1 # {[(noise)]}'
+    const d = computeSegmentDifficulty(text, [{ start: 6, end: text.length }])
+    expect(d.typeableChars).toBe(3)
+    expect(d.maxDepth).toBe(0)
+  })
+})
@@ -0,0 +1,62 @@
+import type { SegmentDifficulty, TextRange } from '../shared/types'
+import { mergeRanges } from './skipRanges'
+
+/** Symbols per typeable char at which the density part maxes out (dense C++/Rust sits near here). */
+const FULL_SYMBOL_DENSITY = 0.35
+const FULL_IDENTIFIER_LENGTH = 12
+const FULL_DEPTH = 6
+const FULL_LENGTH_CHARS = 5_000
+
+const IDENTIFIER = /[\p{L}_$][\p{L}\p{N}_$]*/gu
+
+function isSymbol(ch: string): boolean {
+  return !/[\p{L}\p{N}_$\s]/u.test(ch)
+}
+
+/**
+ * Scores how hard a segment is to type, 0 (trivial) to 100. Weighted parts: symbol density (40),
+ * mean identifier length (20), deepest bracket nesting (20) and typeable length on a log scale (20).
+ * Whitespace and `skipRanges` (skipped comments) don't count.
+ */
+export function computeSegmentDifficulty(text: string, skipRanges: TextRange[] = []): SegmentDifficulty {
+  let typeable = ''
+  let cursor = 0
+  for (const r of mergeRanges(skipRanges, text.length)) {
+    typeable += text.slice(cursor, r.start) + '\n'
+    cursor = r.end
+  }
+  typeable += text.slice(cursor)
+
+  let typeableChars = 0
+  let symbols = 0
+  let depth = 0
+  let maxDepth = 0
+  for (const ch of typeable) {
+    if (/\s/.test(ch)) continue
+    typeableChars += 1
+    if (!isSymbol(ch)) continue
+    symbols += 1
+    if (ch === '{' || ch === '(' || ch === '[') maxDepth = Math.max(maxDepth, ++depth)
+    else if (ch === '}' || ch === ')' || ch === ']') depth = Math.max(0, depth - 1)
+  }
+
+  const identifiers = typeable.match(IDENTIFIER) ?? []
+  const meanIdentifierLength = identifiers.length > 0
+    ? identifiers.reduce((sum, id) => sum + id.length, 0) / identifiers.length
+    : 0
+  const symbolDensity = typeableChars > 0 ? symbols / typeableChars : 0
+
+  const part = (value: number, full: number) => Math.min(1, Math.max(0, value / full))
+  const score = 40 * part(symbolDensity, FULL_SYMBOL_DENSITY)
+    + 20 * part(meanIdentifierLength - 2, FULL_IDENTIFIER_LENGTH - 2)
+    + 20 * part(maxDepth, FULL_DEPTH)
+    + 20 * part(Math.log10(1 + typeableChars), Math.log10(1 + FULL_LENGTH_CHARS))
+
+  return {
+    score: Math.round(score),
+    symbolDensity,
+    meanIdentifierLength,
+    maxDepth,
+    typeableChars,
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { buildDrillSegment, pickDrillTargets } from './drill'
+import type { WeaknessStat } from './weakness'
+
+function stat(key: string, attempts: number, errors: number): WeaknessStat {
+  return { key, attempts, errors, errorRate: errors / attempts, meanLatencyMs: null }
+}
+
+describe('weakness drill', () => {
+  it('targets the worst symbols and symbol pairs with enough samples', () => {
+    const targets = pickDrillTargets({
+      chars: [stat('a', 50, 25), stat('{', 20, 2), stat('$', 2, 2), stat(';', 30, 9), stat('(', 40, 0)],
+      bigrams: [stat('=>', 10, 4)],
+    })
+    expect(targets.map((t) => t.key)).toEqual(['=>', ';', '{'])
+  })
+
+  it('builds a segment from the lines that hit the targets most, in source order', () => {
+    const content = [
+      'function f() {',
+      '    // x => y;',
+      '    const g = (x) => x;',
+      '    return 1',
+      '    const h = (y) => y;',
+      '    const g = (x) => x;',
+      '}',
+    ].join('\n')
+    const segment = buildDrillSegment([{ fileName: 'a.ts', content }], [{ key: '=>', errorRate: 0.5 }, { key: ';', errorRate: 0.1 }])
+    expect(segment?.text).toBe('const g = (x) => x;\nconst h = (y) => y;')
+    expect(segment).toMatchObject({ index: 0, startLine: 1, endLine: 2 })
+  })
+
+  it('respects the line budget and returns null without matches', () => {
+    const content = Array.from({ length: 10 }, (_, i) => `a${i} :: b`).join('\n')
+    expect(buildDrillSegment([{ fileName: 'a.rs', content }], [{ key: '::', errorRate: 1 }], { maxLines: 3 })?.text.split('\n')).toHaveLength(3)
+    expect(buildDrillSegment([{ fileName: 'a.rs', content }], [{ key: '=>', errorRate: 1 }])).toBeNull()
+    expect(buildDrillSegment([{ fileName: 'a.rs', content }], [])).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+import type { TextSegment } from '../shared/types'
+import { normalizeText } from './segmenter'
+import type { WeaknessReport } from './weakness'
+
+export type DrillTarget = {
+  /** A symbol or symbol bigram to look for in source lines. */
+  key: string
+  errorRate: number
+}
+
+export type DrillSource = {
+  fileName: string
+  content: string
+}
+
+export type DrillOptions = {
+  maxTargets?: number
+  minSamples?: number
+  maxLines?: number
+  maxChars?: number
+  tabWidth?: number
+}
+
+const DEFAULT_MAX_TARGETS = 8
+const DEFAULT_MIN_SAMPLES = 5
+const DEFAULT_MAX_LINES = 20
+const DEFAULT_MAX_CHARS = 2_000
+/** Long lines are mostly data or minified code; they make poor drills. */
+const MAX_LINE_CHARS = 120
+/** Occurrences of one target beyond this don't make a line more useful. */
+const MAX_HITS_PER_TARGET = 3
+
+const COMMENT_LINE = /^(\/\/|\/\*|\*|#|--|;)/
+
+function isSymbolChar(ch: string): boolean {
+  return !/[\p{L}\p{N}_\s]/u.test(ch)
+}
+
+/** The most error-prone symbols and symbol bigrams with enough samples, worst first. */
+export function pickDrillTargets(report: WeaknessReport, options: DrillOptions = {}): DrillTarget[] {
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES
+  const candidates = [
+    ...report.chars.filter((s) => s.key.length === 1 && isSymbolChar(s.key)),
+    ...report.bigrams,
+  ]
+  return candidates
+    .filter((s) => s.attempts >= minSamples && s.errors > 0)
+    .sort((a, b) => b.errorRate - a.errorRate || b.attempts - a.attempts)
+    .slice(0, options.maxTargets ?? DEFAULT_MAX_TARGETS)
+    .map((s) => ({ key: s.key, errorRate: s.errorRate }))
+}
+
+function countOccurrences(line: string, key: string): number {
+  let count = 0
+  for (let i = line.indexOf(key); i >= 0 && count < MAX_HITS_PER_TARGET; i = line.indexOf(key, i + key.length)) count += 1
+  return count
+}
+
+/**
+ * Picks the real source lines that exercise the targets most (weighted by error rate) and joins
+ * them, indentation stripped, into one synthetic segment. Comment-only and duplicate lines are
+ * skipped. Returns null when no line contains a target.
+ */
+export function buildDrillSegment(sources: DrillSource[], targets: DrillTarget[], options: DrillOptions = {}): TextSegment | null {
+  if (targets.length === 0) return null
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS
+
+  const seen = new Set<string>()
+  const scored: { line: string; score: number; order: number }[] = []
+  for (const source of sources) {
+    for (const raw of normalizeText(source.content, options.tabWidth).split('\n')) {
+      const line = raw.trim()
+      if (!line || line.length > MAX_LINE_CHARS || COMMENT_LINE.test(line) || seen.has(line)) continue
+      seen.add(line)
+
+      let score = 0
+      for (const target of targets) score += countOccurrences(line, target.key) * target.errorRate
+      if (score > 0) scored.push({ line, score, order: scored.length })
+    }
+  }
+  if (scored.length === 0) return null
+
+  scored.sort((a, b) => b.score - a.score || a.order - b.order)
+
+  const picked: typeof scored = []
+  let chars = 0
+  for (const entry of scored) {
+    if (picked.length >= maxLines) break
+    if (picked.length > 0 && chars + entry.line.length + 1 > maxChars) continue
+    picked.push(entry)
+    chars += entry.line.length + 1
+  }
+  // Keep the source order so neighbouring lines still read naturally.
+  picked.sort((a, b) => a.order - b.order)
+
+  return {
+    index: 0,
+    startLine: 1,
+    endLine: picked.length,
+    text: picked.map((p) => p.line).join('\n'),
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { FileProgressUpdate } from '../shared/types'
+import { fileCoverage, firstUnfinishedSegment, mergeFileProgress } from './fileProgress'
+
+function update(overrides: Partial<FileProgressUpdate>): FileProgressUpdate {
+  return {
+    filePath: '/src/a.ts',
+    fileName: 'a.ts',
+    contentHash: 'h1',
+    lineCount: 100,
+    segmentCount: 4,
+    segmentIndex: 0,
+    startLine: 1,
+    endLine: 25,
+    wpm: 40,
+    durationMs: 60_000,
+    atMs: 1_000,
+    ...overrides,
+  }
+}
+
+describe('file progress', () => {
+  it('tracks best WPM per segment and total time', () => {
+    let p = mergeFileProgress(null, update({}))
+    p = mergeFileProgress(p, update({ wpm: 55, atMs: 2_000 }))
+    p = mergeFileProgress(p, update({ wpm: 30, atMs: 3_000 }))
+    p = mergeFileProgress(p, update({ segmentIndex: 2, startLine: 51, endLine: 75, atMs: 4_000 }))
+
+    expect(p.completed).toEqual([
+      { segmentIndex: 0, startLine: 1, endLine: 25, bestWpm: 55, attempts: 3 },
+      { segmentIndex: 2, startLine: 51, endLine: 75, bestWpm: 40, attempts: 1 },
+    ])
+    expect(p.totalDurationMs).toBe(240_000)
+    expect(p.updatedAtMs).toBe(4_000)
+    expect(fileCoverage(p)).toBeCloseTo(0.5)
+    const quarters = [{ startLine: 1, endLine: 25 }, { startLine: 26, endLine: 50 }, { startLine: 51, endLine: 75 }, { startLine: 76, endLine: 100 }]
+    expect(firstUnfinishedSegment(p, quarters)).toBe(1)
+  })
+
+  it('starts over when the content hash changes', () => {
+    const old = mergeFileProgress(null, update({}))
+    const p = mergeFileProgress(old, update({ contentHash: 'h2', startLine: 26, endLine: 50, segmentIndex: 1 }))
+    expect(p.contentHash).toBe('h2')
+    expect(p.completed.map((c) => c.segmentIndex)).toEqual([1])
+    expect(p.totalDurationMs).toBe(60_000)
+  })
+
+  it('finds the first unfinished segment by lines after re-segmenting', () => {
+    let p = mergeFileProgress(null, update({ startLine: 1, endLine: 25 }))
+    p = mergeFileProgress(p, update({ segmentIndex: 1, startLine: 26, endLine: 50 }))
+    // Re-segmented into halves, then thirds: index 1 now means other lines.
+    expect(firstUnfinishedSegment(p, [{ startLine: 1, endLine: 50 }, { startLine: 51, endLine: 100 }])).toBe(1)
+    expect(firstUnfinishedSegment(p, [{ startLine: 1, endLine: 34 }, { startLine: 35, endLine: 67 }, { startLine: 68, endLine: 100 }])).toBe(1)
+    expect(firstUnfinishedSegment(p, [{ startLine: 1, endLine: 10 }, { startLine: 11, endLine: 50 }])).toBeNull()
+  })
+
+  it('counts overlapping line ranges once', () => {
+    let p = mergeFileProgress(null, update({ startLine: 1, endLine: 60 }))
+    p = mergeFileProgress(p, update({ startLine: 41, endLine: 100, segmentIndex: 1 }))
+    expect(fileCoverage(p)).toBe(1)
+  })
+})
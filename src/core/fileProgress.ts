@@ -0,0 +1,76 @@
+import type { FileProgress, FileProgressUpdate, TextSegment } from '../shared/types'
+
+/**
+ * Folds a finished segment into the file's progress. A record for another content hash is
+ * discarded: the file changed, so its completed line ranges no longer apply.
+ */
+export function mergeFileProgress(prev: FileProgress | null, update: FileProgressUpdate): FileProgress {
+  const base: FileProgress = prev && prev.filePath === update.filePath && prev.contentHash === update.contentHash
+    ? prev
+    : {
+      filePath: update.filePath,
+      fileName: update.fileName,
+      contentHash: update.contentHash,
+      lineCount: update.lineCount,
+      segmentCount: update.segmentCount,
+      completed: [],
+      totalDurationMs: 0,
+      updatedAtMs: update.atMs,
+    }
+
+  // Entries are per line range, so they survive re-segmenting with other settings.
+  const completed = base.completed.filter((c) => c.startLine !== update.startLine || c.endLine !== update.endLine)
+  const existing = base.completed.find((c) => c.startLine === update.startLine && c.endLine === update.endLine)
+  completed.push({
+    segmentIndex: update.segmentIndex,
+    startLine: update.startLine,
+    endLine: update.endLine,
+    bestWpm: Math.max(existing?.bestWpm ?? 0, update.wpm),
+    attempts: (existing?.attempts ?? 0) + 1,
+  })
+  completed.sort((a, b) => a.startLine - b.startLine || a.endLine - b.endLine)
+
+  return {
+    ...base,
+    fileName: update.fileName,
+    lineCount: update.lineCount,
+    segmentCount: update.segmentCount,
+    completed,
+    totalDurationMs: base.totalDurationMs + Math.max(0, update.durationMs),
+    updatedAtMs: update.atMs,
+  }
+}
+
+/** Fraction (0..1) of the file's lines inside at least one completed segment. */
+export function fileCoverage(progress: FileProgress): number {
+  if (progress.lineCount <= 0) return 0
+  let covered = 0
+  let coveredUpTo = 0
+  for (const c of progress.completed) {
+    const start = Math.max(c.startLine, coveredUpTo + 1)
+    const end = Math.min(c.endLine, progress.lineCount)
+    if (end >= start) covered += end - start + 1
+    coveredUpTo = Math.max(coveredUpTo, end)
+  }
+  return covered / progress.lineCount
+}
+
+/**
+ * Index of the first segment whose lines aren't all inside completed ranges, or null when every
+ * one is. Compared by lines, so it holds for any segmentation of the same content.
+ */
+export function firstUnfinishedSegment(progress: FileProgress, segments: Pick<TextSegment, 'startLine' | 'endLine'>[]): number | null {
+  const index = segments.findIndex((segment) => !linesCovered(progress, segment.startLine, segment.endLine))
+  return index >= 0 ? index : null
+}
+
+/** Whether `startLine..endLine` lies inside the union of completed ranges (sorted by start line). */
+function linesCovered(progress: FileProgress, startLine: number, endLine: number): boolean {
+  let coveredUpTo = startLine - 1
+  for (const c of progress.completed) {
+    if (c.startLine > coveredUpTo + 1) break
+    coveredUpTo = Math.max(coveredUpTo, c.endLine)
+    if (coveredUpTo >= endLine) return true
+  }
+  return coveredUpTo >= endLine
+}
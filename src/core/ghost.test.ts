@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { buildGhostTimeline, ghostCursorAt, ghostReachTimeMs, pickBestAttempt } from './ghost'
+import { makeAttempt } from './testUtils'
+
+const key = { filePath: '/src/a.ts', segmentIndex: 0, segmentStartLine: 1, segmentEndLine: 1 }
+
+describe('ghost', () => {
+  it('picks the fastest replayable attempt on the same segment and text', () => {
+    const slow = makeAttempt('abc', [[0, 'a'], [100, 'b'], [200, 'c']], { id: 'slow', wpm: 30 })
+    const fast = makeAttempt('abc', [[0, 'a'], [50, 'b'], [100, 'c']], { id: 'fast', wpm: 60 })
+    const otherSegment = makeAttempt('abc', [[0, 'a']], { id: 'other', wpm: 90, segmentIndex: 1 })
+    const staleText = makeAttempt('abd', [[0, 'a']], { id: 'stale', wpm: 95 })
+    const noEvents = makeAttempt('abc', [], { id: 'old', wpm: 99, events: undefined })
+
+    expect(pickBestAttempt([slow, fast, otherSegment, staleText, noEvents], key, 'abc')?.id).toBe('fast')
+    expect(pickBestAttempt([otherSegment], key, 'abc')).toBeNull()
+  })
+
+  it('ghost cursor follows the recorded run, including backspaces', () => {
+    const a = makeAttempt('abc', [[1000, 'a'], [1100, 'x'], [1200, null], [1300, 'b'], [1400, 'c']], { id: 'a', wpm: 40 })
+    const timeline = buildGhostTimeline(a)
+
+    expect(ghostCursorAt(timeline, 0)).toBe(1)
+    expect(ghostCursorAt(timeline, 150)).toBe(2)
+    expect(ghostCursorAt(timeline, 250)).toBe(1)
+    expect(ghostCursorAt(timeline, 10_000)).toBe(3)
+  })
+
+  it('reach time uses the furthest position the ghost had reached', () => {
+    const a = makeAttempt('abc', [[1000, 'a'], [1100, 'x'], [1200, null], [1300, 'b'], [1400, 'c']], { id: 'a', wpm: 40 })
+    const timeline = buildGhostTimeline(a)
+
+    expect(ghostReachTimeMs(timeline, 0)).toBe(0)
+    expect(ghostReachTimeMs(timeline, 2)).toBe(100)
+    expect(ghostReachTimeMs(timeline, 3)).toBe(400)
+    expect(ghostReachTimeMs(timeline, 4)).toBeNull()
+  })
+
+  it('squeezes idle pauses out of the timeline like the live clock', () => {
+    const attempt = makeAttempt('abc', [[1000, 'a'], [2000, 'b'], [32_000, 'c']], { id: 'a', wpm: 40, idleThresholdMs: 10_000 })
+    const timeline = buildGhostTimeline(attempt)
+
+    expect(timeline.times).toEqual([0, 1000, 11_000])
+  })
+})
@@ -0,0 +1,80 @@
+import type { Attempt } from '../shared/types'
+import { activeEventTimes, applyReplayEvent, canReplay, createReplayEngine } from './replay'
+
+export type GhostSegmentKey = {
+  filePath: string
+  segmentIndex: number
+  segmentStartLine: number
+  segmentEndLine: number
+}
+
+export type GhostTimeline = {
+  initialCursor: number
+  /** Active event times relative to the attempt start (idle pauses squeezed out), ascending. */
+  times: number[]
+  /** Engine cursor after each event. */
+  cursors: number[]
+  /** Running maximum of `cursors`, used to answer "when did the ghost first get here". */
+  reached: number[]
+}
+
+/**
+ * Picks the fastest replayable attempt on the same segment. When the attempt kept its
+ * segment text, it must still match so a ghost never runs over edited code.
+ */
+export function pickBestAttempt(attempts: Attempt[], key: GhostSegmentKey, segmentText: string): Attempt | null {
+  let best: Attempt | null = null
+  for (const a of attempts) {
+    if (a.filePath !== key.filePath) continue
+    if (a.segmentIndex !== key.segmentIndex) continue
+    if (a.segmentStartLine !== key.segmentStartLine || a.segmentEndLine !== key.segmentEndLine) continue
+    if (!canReplay(a)) continue
+    if (a.replay && a.replay.text !== segmentText) continue
+    if (!best || a.wpm > best.wpm) best = a
+  }
+  return best
+}
+
+export function buildGhostTimeline(attempt: Attempt): GhostTimeline {
+  const engine = createReplayEngine(attempt)
+  const initialCursor = engine.cursor
+  // Active time, so the ghost races against the live clock with its idle pauses squeezed out.
+  const times = activeEventTimes(attempt)
+  const cursors: number[] = []
+  const reached: number[] = []
+
+  let maxCursor = initialCursor
+  for (const event of attempt.events ?? []) {
+    applyReplayEvent(engine, event)
+    maxCursor = Math.max(maxCursor, engine.cursor)
+    cursors.push(engine.cursor)
+    reached.push(maxCursor)
+  }
+
+  return { initialCursor, times, cursors, reached }
+}
+
+export function ghostCursorAt(timeline: GhostTimeline, elapsedMs: number): number {
+  let lo = 0
+  let hi = timeline.times.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (timeline.times[mid] <= elapsedMs) lo = mid + 1
+    else hi = mid
+  }
+  return lo === 0 ? timeline.initialCursor : timeline.cursors[lo - 1]
+}
+
+/** Elapsed time at which the ghost first reached `offset`, or null if it never did. */
+export function ghostReachTimeMs(timeline: GhostTimeline, offset: number): number | null {
+  if (offset <= timeline.initialCursor) return 0
+
+  let lo = 0
+  let hi = timeline.reached.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (timeline.reached[mid] >= offset) hi = mid
+    else lo = mid + 1
+  }
+  return lo < timeline.times.length ? timeline.times[lo] : null
+}
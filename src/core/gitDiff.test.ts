@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { parseDiffHunks } from './gitDiff'
+
+describe('gitDiff', () => {
+  it('collects added lines per hunk with new-side line numbers', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -3,0 +4,2 @@ export function f() {',
+      '+  const x = 1',
+      '+  return x',
+      '@@ -10 +12 @@',
+      '-old()',
+      '+next()',
+      'diff --git a/b.py b/b.py',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/b.py',
+      '@@ -0,0 +1 @@',
+      '+# hi',
+      '\\ No newline at end of file',
+      '',
+    ].join('\n')
+
+    expect(parseDiffHunks(diff)).toEqual([
+      { filePath: 'src/a.ts', startLine: 4, endLine: 5, text: '  const x = 1\n  return x' },
+      { filePath: 'src/a.ts', startLine: 12, endLine: 12, text: 'next()' },
+      { filePath: 'b.py', startLine: 1, endLine: 1, text: '# hi' },
+    ])
+  })
+
+  it('splits runs at context lines and skips deletions and binaries', () => {
+    const diff = [
+      'diff --git a/x.c b/x.c',
+      '--- a/x.c',
+      '+++ b/x.c',
+      '@@ -1,3 +1,4 @@',
+      '+int a;',
+      ' int b;',
+      '+int c;',
+      '+',
+      'diff --git a/gone.c b/gone.c',
+      'deleted file mode 100644',
+      '--- a/gone.c',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-int d;',
+      'diff --git a/logo.png b/logo.png',
+      'Binary files a/logo.png and b/logo.png differ',
+      'diff --git a/blank.txt b/blank.txt',
+      '--- a/blank.txt',
+      '+++ b/blank.txt',
+      '@@ -1 +1,2 @@',
+      '+   ',
+    ].join('\n')
+
+    expect(parseDiffHunks(diff)).toEqual([
+      { filePath: 'x.c', startLine: 1, endLine: 1, text: 'int a;' },
+      { filePath: 'x.c', startLine: 3, endLine: 4, text: 'int c;\n' },
+    ])
+  })
+
+  it('reads a merge commit\'s combined diff against the first parent', () => {
+    const diff = [
+      'diff --cc src/m.ts',
+      'index 1111111,2222222..3333333',
+      '--- a/src/m.ts',
+      '+++ b/src/m.ts',
+      '@@@ -1,2 -1,2 +1,4 @@@',
+      '  keep()',
+      '+ ours()',
+      ' +theirs()',
+      '++both()',
+      '- gone()',
+      '',
+    ].join('\n')
+
+    expect(parseDiffHunks(diff)).toEqual([
+      { filePath: 'src/m.ts', startLine: 2, endLine: 2, text: 'ours()' },
+      { filePath: 'src/m.ts', startLine: 4, endLine: 4, text: 'both()' },
+    ])
+  })
+
+  it('decodes quoted paths', () => {
+    const diff = 'diff --git "a/caf\\303\\251.js" "b/caf\\303\\251.js"\n+++ "b/caf\\303\\251.js"\n@@ -0,0 +1 @@\n+go()\n'
+    expect(parseDiffHunks(diff)).toEqual([{ filePath: 'café.js', startLine: 1, endLine: 1, text: 'go()' }])
+  })
+})
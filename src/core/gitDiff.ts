@@ -0,0 +1,96 @@
+import type { DiffHunk } from '../shared/types'
+
+/** `@@ -a +b @@`, or a combined diff's `@@@ -a -b +c @@@` (one `@` and one `-` range more per parent). */
+const HUNK_HEADER = /^(@{2,}) (?:-\d+(?:,\d+)? )+\+(\d+)(?:,\d+)? @{2,}/
+
+function unquotePath(raw: string): string {
+  if (!raw.startsWith('"')) return raw
+  // git quotes paths with unusual characters C-style; octal escapes are UTF-8 bytes.
+  const bytes: number[] = []
+  const body = raw.slice(1, raw.endsWith('"') ? -1 : undefined)
+  for (let i = 0; i < body.length; i += 1) {
+    const ch = body[i]
+    if (ch !== '\\' || i + 1 >= body.length) {
+      bytes.push(...new TextEncoder().encode(ch))
+      continue
+    }
+    const next = body[i + 1]
+    const octal = /^[0-7]{3}/.exec(body.slice(i + 1))
+    if (octal) {
+      bytes.push(parseInt(octal[0], 8))
+      i += 3
+    } else {
+      bytes.push(...new TextEncoder().encode(({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[next] ?? next))
+      i += 1
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes))
+}
+
+/**
+ * Extracts the added lines of a unified diff (`git diff`/`git show`), one hunk per run of
+ * consecutive `+` lines, numbered on the new side. Deleted files and binary patches yield nothing.
+ * Combined diffs of merges (`diff --cc`) count lines added against the first parent.
+ */
+export function parseDiffHunks(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = []
+  let filePath: string | null = null
+  let newLine = 0
+  let inHunk = false
+  // Width of the per-line marker: one column per parent.
+  let parents = 1
+  let run: { startLine: number; lines: string[] } | null = null
+
+  const flush = () => {
+    if (run && filePath !== null) {
+      hunks.push({ filePath, startLine: run.startLine, endLine: run.startLine + run.lines.length - 1, text: run.lines.join('\n') })
+    }
+    run = null
+  }
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ') || line.startsWith('diff --cc ') || line.startsWith('diff --combined ')) {
+      flush()
+      filePath = null
+      inHunk = false
+      continue
+    }
+
+    const header = HUNK_HEADER.exec(line)
+    if (header) {
+      flush()
+      parents = header[1].length - 1
+      newLine = Number(header[2])
+      inHunk = true
+      continue
+    }
+
+    if (!inHunk) {
+      if (line.startsWith('+++ ')) {
+        const target = unquotePath(line.slice(4).replace(/\t.*$/, ''))
+        // Main pins `--dst-prefix=b/`, so config like diff.mnemonicPrefix can't change it.
+        filePath = target === '/dev/null' ? null : target.replace(/^b\//, '')
+      }
+      continue
+    }
+
+    const marker = line.slice(0, parents)
+    if (line.startsWith('\\') || marker.includes('-')) {
+      // Removed lines and "\ No newline at end of file" don't advance the new side.
+    } else if (marker.length === parents && /^[ +]+$/.test(marker)) {
+      if (marker[0] === '+') {
+        run ??= { startLine: newLine, lines: [] }
+        run.lines.push(line.slice(parents).replace(/\r$/, ''))
+      } else {
+        flush()
+      }
+      newLine += 1
+    } else {
+      flush()
+      inHunk = false
+    }
+  }
+  flush()
+
+  return hunks.filter((h) => h.text.trim().length > 0)
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { isIgnored, parseGitignore } from './gitignore'
+
+describe('gitignore', () => {
+  it('matches unanchored names at any depth and anchored paths from the base', () => {
+    const rules = parseGitignore(['# deps', 'node_modules/', '*.log', '/dist', 'docs/*.pdf', ''].join('\n'))
+    expect(isIgnored(rules, 'node_modules', true)).toBe(true)
+    expect(isIgnored(rules, 'packages/a/node_modules', true)).toBe(true)
+    expect(isIgnored(rules, 'node_modules', false)).toBe(false)
+    expect(isIgnored(rules, 'src/debug.log', false)).toBe(true)
+    expect(isIgnored(rules, 'dist', true)).toBe(true)
+    expect(isIgnored(rules, 'src/dist', true)).toBe(false)
+    expect(isIgnored(rules, 'docs/a.pdf', false)).toBe(true)
+    expect(isIgnored(rules, 'docs/sub/a.pdf', false)).toBe(false)
+    expect(isIgnored(rules, 'src/main.ts', false)).toBe(false)
+  })
+
+  it('lets later negations re-include files', () => {
+    const rules = parseGitignore('*.env\n!example.env\n')
+    expect(isIgnored(rules, 'prod.env', false)).toBe(true)
+    expect(isIgnored(rules, 'config/example.env', false)).toBe(false)
+  })
+
+  it('supports ** and character classes', () => {
+    const rules = parseGitignore('**/gen/**\nbuild-[0-9]\nfoo/**/bar\n')
+    expect(isIgnored(rules, 'a/gen/x.ts', false)).toBe(true)
+    expect(isIgnored(rules, 'gen/deep/x.ts', false)).toBe(true)
+    expect(isIgnored(rules, 'build-3', true)).toBe(true)
+    expect(isIgnored(rules, 'build-x', true)).toBe(false)
+    expect(isIgnored(rules, 'foo/bar', true)).toBe(true)
+    expect(isIgnored(rules, 'foo/a/b/bar', true)).toBe(true)
+  })
+
+  it('scopes nested .gitignore rules to their directory', () => {
+    const rules = parseGitignore('*.tmp\n', 'pkg')
+    expect(isIgnored(rules, 'pkg/a.tmp', false)).toBe(true)
+    expect(isIgnored(rules, 'a.tmp', false)).toBe(false)
+  })
+})
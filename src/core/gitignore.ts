@@ -0,0 +1,97 @@
+export type IgnoreRule = {
+  /** Directory of the `.gitignore` the rule came from, relative to the scan root ('' for the root). */
+  base: string
+  regex: RegExp
+  negate: boolean
+  dirOnly: boolean
+}
+
+function globToRegexSource(glob: string): string {
+  let out = ''
+  for (let i = 0; i < glob.length; i += 1) {
+    const ch = glob[i]
+    if (ch === '\\' && i + 1 < glob.length) {
+      i += 1
+      out += glob[i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    } else if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/'
+        if (atSegmentStart && glob[i + 2] === '/') {
+          out += '(?:.*/)?'
+          i += 2
+        } else {
+          out += '.*'
+          i += 1
+        }
+      } else {
+        out += '[^/]*'
+      }
+    } else if (ch === '?') {
+      out += '[^/]'
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 2)
+      if (close < 0) {
+        out += '\\['
+        continue
+      }
+      let body = glob.slice(i + 1, close)
+      if (body.startsWith('!')) body = `^${body.slice(1)}`
+      out += `[${body.replace(/\\/g, '\\\\')}]`
+      i = close
+    } else {
+      out += ch.replace(/[.+^${}()|\\/]/g, '\\$&')
+    }
+  }
+  return out
+}
+
+/**
+ * Parses a `.gitignore` found in directory `base` (relative to the scan root, '' for the root).
+ * Supports comments, `!` negation, trailing-`/` directory rules, leading-`/` or inner-`/` anchoring,
+ * `*`, `?`, `[...]` and `**`.
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '')
+    if (!line || line.startsWith('#')) continue
+
+    let negate = false
+    if (line.startsWith('!')) {
+      negate = true
+      line = line.slice(1)
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1)
+    }
+
+    let dirOnly = false
+    if (line.endsWith('/')) {
+      dirOnly = true
+      line = line.replace(/\/+$/, '')
+    }
+    if (!line) continue
+
+    const anchored = line.includes('/')
+    if (line.startsWith('/')) line = line.slice(1)
+
+    const source = globToRegexSource(line)
+    const regex = new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`)
+    rules.push({ base, regex, negate, dirOnly })
+  }
+  return rules
+}
+
+/** Last matching rule wins, as in git. `relativePath` uses `/` and is relative to the scan root. */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDir: boolean): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue
+    let candidate = relativePath
+    if (rule.base) {
+      if (!relativePath.startsWith(`${rule.base}/`)) continue
+      candidate = relativePath.slice(rule.base.length + 1)
+    }
+    if (rule.regex.test(candidate)) ignored = !rule.negate
+  }
+  return ignored
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { activeElapsedMs, createIdleClock, isIdle, noteActivity, resumeIdleClock, wallElapsedMs } from './idleClock'
+
+describe('idleClock', () => {
+  it('starts on the first activity', () => {
+    const clock = createIdleClock(5000)
+    expect(activeElapsedMs(clock, 1000)).toBe(0)
+
+    noteActivity(clock, 1000)
+    expect(activeElapsedMs(clock, 3000)).toBe(2000)
+    expect(isIdle(clock, 3000)).toBe(false)
+  })
+
+  it('keeps only the threshold of a long gap and counts it as one pause', () => {
+    const clock = createIdleClock(5000)
+    noteActivity(clock, 0)
+    noteActivity(clock, 1000)
+
+    expect(isIdle(clock, 20_000)).toBe(true)
+    expect(activeElapsedMs(clock, 20_000)).toBe(6000)
+
+    noteActivity(clock, 61_000)
+    expect(clock.pauseCount).toBe(1)
+    expect(clock.pausedMs).toBe(55_000)
+    expect(activeElapsedMs(clock, 62_000)).toBe(7000)
+    expect(wallElapsedMs(clock, 62_000)).toBe(62_000)
+  })
+
+  it('never pauses with a zero threshold', () => {
+    const clock = createIdleClock(0)
+    noteActivity(clock, 0)
+    noteActivity(clock, 60_000)
+
+    expect(clock.pauseCount).toBe(0)
+    expect(activeElapsedMs(clock, 60_000)).toBe(60_000)
+  })
+
+  it('resumes from saved active time', () => {
+    const clock = resumeIdleClock(5000, 12_000, 2, 100_000)
+    expect(activeElapsedMs(clock, 101_000)).toBe(13_000)
+    expect(clock.pauseCount).toBe(2)
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Attempt clock that stops during long gaps between keys. A gap longer than `thresholdMs`
+ * counts as one pause, and only its first `thresholdMs` stay on the clock (0 disables this).
+ */
+export type IdleClock = {
+  thresholdMs: number
+  startAtMs: number | null
+  lastActivityAtMs: number | null
+  pausedMs: number
+  pauseCount: number
+}
+
+export function createIdleClock(thresholdMs: number): IdleClock {
+  return {
+    thresholdMs: Number.isFinite(thresholdMs) ? Math.max(0, thresholdMs) : 0,
+    startAtMs: null,
+    lastActivityAtMs: null,
+    pausedMs: 0,
+    pauseCount: 0,
+  }
+}
+
+/** Continues a clock from saved active time (a resumed session); earlier pauses are folded in. */
+export function resumeIdleClock(thresholdMs: number, elapsedMs: number, pauseCount: number, nowMs: number): IdleClock {
+  const clock = createIdleClock(thresholdMs)
+  clock.startAtMs = nowMs - Math.max(0, elapsedMs)
+  clock.lastActivityAtMs = nowMs
+  clock.pauseCount = Math.max(0, Math.floor(pauseCount))
+  return clock
+}
+
+function idleExcessMs(clock: IdleClock, nowMs: number): number {
+  if (clock.thresholdMs <= 0 || clock.lastActivityAtMs === null) return 0
+  return Math.max(0, nowMs - clock.lastActivityAtMs - clock.thresholdMs)
+}
+
+export function noteActivity(clock: IdleClock, atMs: number): void {
+  if (clock.startAtMs === null) clock.startAtMs = atMs
+
+  const idle = idleExcessMs(clock, atMs)
+  if (idle > 0) {
+    clock.pausedMs += idle
+    clock.pauseCount += 1
+  }
+  clock.lastActivityAtMs = atMs
+}
+
+export function isIdle(clock: IdleClock, nowMs: number): boolean {
+  return idleExcessMs(clock, nowMs) > 0
+}
+
+export function activeElapsedMs(clock: IdleClock, nowMs: number): number {
+  if (clock.startAtMs === null) return 0
+  return Math.max(0, nowMs - clock.startAtMs - clock.pausedMs - idleExcessMs(clock, nowMs))
+}
+
+export function wallElapsedMs(clock: IdleClock, nowMs: number): number {
+  if (clock.startAtMs === null) return 0
+  return Math.max(0, nowMs - clock.startAtMs)
+}
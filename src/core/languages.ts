@@ -0,0 +1,289 @@
+/**
+ * What the app knows about each language: which files it covers, how its comments and strings
+ * look, and the session defaults for it. Comment parsing (`commentRanges.ts`), comment stripping
+ * (`stripComments.ts`) and App's defaults all read this table, so adding a language is a data change.
+ */
+
+export type BlockCommentSyntax = {
+  open: string
+  close: string
+  /** Inner openers need their own closers (Rust, Swift, Kotlin, Scala, Haskell). */
+  nests?: boolean
+  /** Opener and closer only count at column 0, and the comment runs to the end of the closer's line (Ruby's `=begin`/`=end`). */
+  lineStart?: boolean
+}
+
+export type StringSyntax = {
+  open: string
+  close: string
+  /** Char that escapes the next one inside the string; `null` for raw strings. */
+  escape: string | null
+}
+
+/**
+ * Lexing that fixed delimiters can't express, implemented in `lexRules.ts` and tried before
+ * comments and strings:
+ * - `regex`: JS/TS regex literals (`/\/*\//`), told apart from division by the token before them.
+ * - `rust-raw-string` / `rust-char`: `r#"..."#`, `br"..."`, and char literals vs lifetimes (`'a`).
+ * - `cpp-raw-string`: `R"delim(...)delim"` with any encoding prefix.
+ * - `digit-separator`: the `'` in `1'000'000` (C23, C++14).
+ * - `swift-raw-string`: `#"..."#`, `##"""..."""##`.
+ * - `php-attribute`: `#[Attr]` is code, not a `#` comment.
+ * - `php-heredoc`, `shell-heredoc`, `ruby-heredoc`: heredoc bodies are strings.
+ */
+export type LexRule =
+  | 'regex'
+  | 'rust-raw-string'
+  | 'rust-char'
+  | 'cpp-raw-string'
+  | 'digit-separator'
+  | 'swift-raw-string'
+  | 'php-attribute'
+  | 'php-heredoc'
+  | 'shell-heredoc'
+  | 'ruby-heredoc'
+
+export type LanguageSpec = {
+  id: string
+  name: string
+  /** Lower-case, without the dot. The first one names snippets (`snippet.<ext>`). */
+  extensions: string[]
+  lineComments: string[]
+  /**
+   * Where a line comment token counts: anywhere outside strings (default), only at the start of
+   * a word, i.e. after whitespace or at line start (`#` in shell and YAML, so `$#` and `a#b` aren't
+   * comments), or only as the first non-blank char of a line (ini).
+   */
+  lineCommentsAt?: 'word' | 'line'
+  blockComments: BlockCommentSyntax[]
+  /** Scanned so comment tokens inside them don't count. Earlier entries win on a shared prefix. */
+  strings: StringSyntax[]
+  lexRules?: LexRule[]
+  defaults: {
+    /** Whether comments are typed by default; code languages skip them. */
+    includeComments: boolean
+  }
+}
+
+const C_BLOCK: BlockCommentSyntax = { open: '/*', close: '*/' }
+const NESTED_C_BLOCK: BlockCommentSyntax = { open: '/*', close: '*/', nests: true }
+
+const SINGLE_QUOTED: StringSyntax = { open: '\'', close: '\'', escape: '\\' }
+const DOUBLE_QUOTED: StringSyntax = { open: '"', close: '"', escape: '\\' }
+const BACKTICK: StringSyntax = { open: '`', close: '`', escape: '\\' }
+const C_STRINGS = [SINGLE_QUOTED, DOUBLE_QUOTED, BACKTICK]
+/** Java text blocks, Swift multi-line strings. */
+const TRIPLE_QUOTED: StringSyntax = { open: '"""', close: '"""', escape: '\\' }
+/** Kotlin and Scala `"""` strings, C# 11 raw strings. */
+const RAW_TRIPLE_QUOTED: StringSyntax = { open: '"""', close: '"""', escape: null }
+/** Go raw strings, Swift escaped identifiers. */
+const RAW_BACKTICK: StringSyntax = { open: '`', close: '`', escape: null }
+/** Shell, YAML, SQL: no escapes; SQL's and YAML's doubled `''` scans as two adjacent strings, which is the same span. */
+const RAW_SINGLE_QUOTED: StringSyntax = { open: '\'', close: '\'', escape: null }
+
+const SKIP_COMMENTS = { includeComments: false }
+
+function cLike(id: string, name: string, extensions: string[], blockComment = C_BLOCK): LanguageSpec {
+  return {
+    id,
+    name,
+    extensions,
+    lineComments: ['//'],
+    blockComments: [blockComment],
+    strings: C_STRINGS,
+    defaults: SKIP_COMMENTS,
+  }
+}
+
+export const LANGUAGES: LanguageSpec[] = [
+  { ...cLike('typescript', 'TypeScript', ['ts', 'tsx', 'mts', 'cts']), lexRules: ['regex'] },
+  { ...cLike('javascript', 'JavaScript', ['js', 'jsx', 'mjs', 'cjs']), lexRules: ['regex'] },
+  { ...cLike('c', 'C', ['c', 'h']), lexRules: ['digit-separator'] },
+  { ...cLike('cpp', 'C++', ['cpp', 'cc', 'cxx', 'hpp', 'hh']), lexRules: ['cpp-raw-string', 'digit-separator'] },
+  cLike('objective-c', 'Objective-C', ['m', 'mm']),
+  {
+    ...cLike('csharp', 'C#', ['cs']),
+    // Verbatim `@"C:\dir\"` has no escapes; its doubled `""` scans as adjacent strings, which is the same span.
+    strings: [RAW_TRIPLE_QUOTED, { open: '@"', close: '"', escape: null }, SINGLE_QUOTED, DOUBLE_QUOTED],
+  },
+  { ...cLike('java', 'Java', ['java']), strings: [TRIPLE_QUOTED, SINGLE_QUOTED, DOUBLE_QUOTED] },
+  { ...cLike('kotlin', 'Kotlin', ['kt', 'kts'], NESTED_C_BLOCK), strings: [RAW_TRIPLE_QUOTED, SINGLE_QUOTED, DOUBLE_QUOTED] },
+  { ...cLike('scala', 'Scala', ['scala'], NESTED_C_BLOCK), strings: [RAW_TRIPLE_QUOTED, SINGLE_QUOTED, DOUBLE_QUOTED] },
+  { ...cLike('go', 'Go', ['go']), strings: [SINGLE_QUOTED, DOUBLE_QUOTED, RAW_BACKTICK] },
+  {
+    ...cLike('rust', 'Rust', ['rs'], NESTED_C_BLOCK),
+    // `'` is left to `rust-char`: it also starts lifetimes (`&'a str`).
+    strings: [DOUBLE_QUOTED],
+    lexRules: ['rust-raw-string', 'rust-char'],
+  },
+  {
+    ...cLike('swift', 'Swift', ['swift'], NESTED_C_BLOCK),
+    strings: [TRIPLE_QUOTED, DOUBLE_QUOTED, RAW_BACKTICK],
+    lexRules: ['swift-raw-string'],
+  },
+  {
+    ...cLike('php', 'PHP', ['php']),
+    lineComments: ['//', '#'],
+    lexRules: ['php-attribute', 'php-heredoc'],
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    extensions: ['py', 'pyw'],
+    lineComments: ['#'],
+    // Docstrings and other triple-quoted strings are treated as comments.
+    blockComments: [{ open: '"""', close: '"""' }, { open: '\'\'\'', close: '\'\'\'' }],
+    strings: [SINGLE_QUOTED, DOUBLE_QUOTED],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'ruby',
+    name: 'Ruby',
+    extensions: ['rb', 'rake', 'gemspec'],
+    lineComments: ['#'],
+    blockComments: [{ open: '=begin', close: '=end', lineStart: true }],
+    strings: [SINGLE_QUOTED, DOUBLE_QUOTED, BACKTICK],
+    lexRules: ['ruby-heredoc'],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'shell',
+    name: 'Shell',
+    extensions: ['sh', 'bash', 'zsh'],
+    lineComments: ['#'],
+    lineCommentsAt: 'word',
+    blockComments: [],
+    strings: [RAW_SINGLE_QUOTED, DOUBLE_QUOTED],
+    lexRules: ['shell-heredoc'],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'powershell',
+    name: 'PowerShell',
+    extensions: ['ps1', 'psm1', 'psd1'],
+    lineComments: ['#'],
+    lineCommentsAt: 'word',
+    blockComments: [{ open: '<#', close: '#>' }],
+    // PowerShell escapes with a backtick. Here-strings close with `"@` / `'@` at line start.
+    strings: [
+      { open: '@"', close: '\n"@', escape: null },
+      { open: '@\'', close: '\n\'@', escape: null },
+      RAW_SINGLE_QUOTED,
+      { open: '"', close: '"', escape: '`' },
+    ],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'sql',
+    name: 'SQL',
+    extensions: ['sql'],
+    lineComments: ['--'],
+    blockComments: [C_BLOCK],
+    strings: [RAW_SINGLE_QUOTED, { open: '"', close: '"', escape: null }],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'lua',
+    name: 'Lua',
+    extensions: ['lua'],
+    lineComments: ['--'],
+    // Long brackets: `--[[ ]]`, `--[=[ ]=]`, ... (two levels cover real code).
+    blockComments: [
+      { open: '--[[', close: ']]' },
+      { open: '--[=[', close: ']=]' },
+      { open: '--[==[', close: ']==]' },
+    ],
+    strings: [
+      SINGLE_QUOTED,
+      DOUBLE_QUOTED,
+      { open: '[[', close: ']]', escape: null },
+      { open: '[=[', close: ']=]', escape: null },
+      { open: '[==[', close: ']==]', escape: null },
+    ],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'haskell',
+    name: 'Haskell',
+    extensions: ['hs', 'lhs'],
+    lineComments: ['--'],
+    blockComments: [{ open: '{-', close: '-}', nests: true }],
+    // `'` also ends identifiers (`x'`), so char literals aren't scanned.
+    strings: [DOUBLE_QUOTED],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'html',
+    name: 'HTML / XML',
+    extensions: ['html', 'htm', 'xhtml', 'xml', 'xsl'],
+    lineComments: [],
+    blockComments: [{ open: '<!--', close: '-->' }],
+    strings: [],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'css',
+    name: 'CSS',
+    extensions: ['css'],
+    lineComments: [],
+    blockComments: [C_BLOCK],
+    strings: [SINGLE_QUOTED, DOUBLE_QUOTED],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'scss',
+    name: 'SCSS / Less',
+    extensions: ['scss', 'less'],
+    lineComments: ['//'],
+    blockComments: [C_BLOCK],
+    strings: [SINGLE_QUOTED, DOUBLE_QUOTED],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'yaml',
+    name: 'YAML',
+    extensions: ['yaml', 'yml'],
+    lineComments: ['#'],
+    lineCommentsAt: 'word',
+    blockComments: [],
+    strings: [RAW_SINGLE_QUOTED, DOUBLE_QUOTED],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'toml',
+    name: 'TOML',
+    extensions: ['toml'],
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [
+      { open: '"""', close: '"""', escape: '\\' },
+      { open: '\'\'\'', close: '\'\'\'', escape: null },
+      DOUBLE_QUOTED,
+      RAW_SINGLE_QUOTED,
+    ],
+    defaults: SKIP_COMMENTS,
+  },
+  {
+    id: 'ini',
+    name: 'INI',
+    extensions: ['ini', 'cfg', 'properties'],
+    lineComments: [';', '#'],
+    lineCommentsAt: 'line',
+    blockComments: [],
+    strings: [],
+    defaults: SKIP_COMMENTS,
+  },
+]
+
+const LANGUAGE_BY_EXTENSION = new Map(LANGUAGES.flatMap((language) => language.extensions.map((ext) => [ext, language] as const)))
+
+export function getFileExtensionLower(fileName: string): string {
+  const lower = fileName.toLowerCase()
+  const dot = lower.lastIndexOf('.')
+  return dot >= 0 ? lower.slice(dot + 1) : ''
+}
+
+/** The language a file name maps to by extension, or null for plain text and unknown files. */
+export function languageForFile(fileName: string): LanguageSpec | null {
+  return LANGUAGE_BY_EXTENSION.get(getFileExtensionLower(fileName)) ?? null
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { parseLaunchArgs } from './launchArgs'
+
+describe('launchArgs', () => {
+  it('reads a file with an optional line (and ignored column)', () => {
+    expect(parseLaunchArgs(['src/a.ts'])).toEqual({ filePath: 'src/a.ts' })
+    expect(parseLaunchArgs(['src/a.ts:120'])).toEqual({ filePath: 'src/a.ts', line: 120 })
+    expect(parseLaunchArgs(['src/a.ts:120:7'])).toEqual({ filePath: 'src/a.ts', line: 120 })
+    expect(parseLaunchArgs(['C:\\work\\a.ts:9'])).toEqual({ filePath: 'C:\\work\\a.ts', line: 9 })
+    expect(parseLaunchArgs(['C:\\work\\a.ts'])).toEqual({ filePath: 'C:\\work\\a.ts' })
+    expect(parseLaunchArgs(['a.ts:0'])).toEqual({ filePath: 'a.ts:0' })
+  })
+
+  it('reads --segment as a 1-based number in either form', () => {
+    expect(parseLaunchArgs(['--segment', '3', 'a.ts'])).toEqual({ filePath: 'a.ts', segmentIndex: 2 })
+    expect(parseLaunchArgs(['a.ts', '--segment=1'])).toEqual({ filePath: 'a.ts', segmentIndex: 0 })
+    expect(parseLaunchArgs(['a.ts', '--segment', 'x'])).toEqual({ filePath: 'a.ts' })
+  })
+
+  it('skips foreign flags and needs a file', () => {
+    expect(parseLaunchArgs(['--no-sandbox', '--allow-file-access-from-files', 'b.py:4'])).toEqual({ filePath: 'b.py', line: 4 })
+    expect(parseLaunchArgs(['--', '-odd-name.txt'])).toEqual({ filePath: '-odd-name.txt' })
+    expect(parseLaunchArgs(['--segment', '2'])).toBeNull()
+    expect(parseLaunchArgs([])).toBeNull()
+  })
+})
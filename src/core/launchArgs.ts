@@ -0,0 +1,53 @@
+export type LaunchRequest = {
+  /** As given on the command line; resolve it against the launching process's working directory. */
+  filePath: string
+  /** 1-based line from `file:line` (or `file:line:column`). */
+  line?: number
+  /** 0-based segment index from `--segment N` (N is 1-based, as shown in Typing). */
+  segmentIndex?: number
+}
+
+const LINE_SUFFIX = /^(.+?):(\d+)(?::\d+)?$/
+
+function parsePositive(raw: string | undefined): number | undefined {
+  if (raw === undefined || !/^\d+$/.test(raw)) return undefined
+  const value = Number(raw)
+  return value >= 1 ? value : undefined
+}
+
+/**
+ * Parses the app's own arguments (argv without the executable / app path): the first positional
+ * argument is the file, optionally suffixed with `:line`; `--segment N` / `--segment=N` picks a
+ * segment. Other `--flags` (Chromium's, Electron's) are ignored. Null when no file is named.
+ */
+export function parseLaunchArgs(args: string[]): LaunchRequest | null {
+  let target: string | null = null
+  let segment: number | undefined
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i]
+    if (arg === '--segment') {
+      segment = parsePositive(args[i + 1]) ?? segment
+      i += 1
+    } else if (arg.startsWith('--segment=')) {
+      segment = parsePositive(arg.slice('--segment='.length)) ?? segment
+    } else if (arg === '--') {
+      target ??= args[i + 1] ?? null
+      break
+    } else if (!arg.startsWith('-') && target === null) {
+      target = arg
+    }
+  }
+
+  if (!target) return null
+
+  const request: LaunchRequest = { filePath: target }
+  const match = LINE_SUFFIX.exec(target)
+  // `C:\file.ts` has a colon too, but never digits-only after it.
+  if (match && parsePositive(match[2]) !== undefined) {
+    request.filePath = match[1]
+    request.line = Number(match[2])
+  }
+  if (segment !== undefined) request.segmentIndex = segment - 1
+  return request
+}
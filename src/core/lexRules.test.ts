@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import { parseCommentRangesForFile } from './commentRanges'
+
+type Fixture = {
+  name: string
+  file: string
+  source: string
+  /** Every comment in `source`, in order. */
+  comments: string[]
+}
+
+/** Real-world shapes that fool a delimiter-only scanner. */
+const FIXTURES: Fixture[] = [
+  {
+    name: 'JS regex literals holding comment tokens',
+    file: 'a.js',
+    source: [
+      'const re = /\\/*[/*]/g // trailing',
+      'if (ok) return /a\\/\\/b/.test(s) /* block */',
+      'const half = total / 2 // divide',
+      'const ratio = (a + b) / (c - d) / 2 // parens',
+    ].join('\n'),
+    comments: ['// trailing', '/* block */', '// divide', '// parens'],
+  },
+  {
+    name: 'TSX closing tags are not regexes',
+    file: 'a.tsx',
+    source: 'const el = <a>x</a> // link\nconst m = s.match(/<\\/a>/) // tag',
+    comments: ['// link', '// tag'],
+  },
+  {
+    name: 'Rust raw strings, lifetimes and nested comments',
+    file: 'lib.rs',
+    source: [
+      'let q = r#"say "// hi" /* no */"#; // raw',
+      'let b = br"C:\\dir\\" ; // bytes',
+      'fn f<\'a>(x: &\'a str) -> &\'a str { x } // lifetimes',
+      'let c = \'"\'; let d = \'\\\'\'; // chars',
+      '/* outer /* inner */ still outer */ done',
+    ].join('\n'),
+    comments: ['// raw', '// bytes', '// lifetimes', '// chars', '/* outer /* inner */ still outer */'],
+  },
+  {
+    name: 'C++ raw strings and digit separators',
+    file: 'a.cpp',
+    source: [
+      'auto s = R"x(a )" // not "here" )x"; // raw',
+      'auto u = u8R"(/* no */)"; /* yes */',
+      'int n = 1\'000\'000; // sep',
+      'char c = u8\'a\'; // char',
+    ].join('\n'),
+    comments: ['// raw', '/* yes */', '// sep', '// char'],
+  },
+  {
+    name: 'Go backtick raw strings end at the first backtick',
+    file: 'main.go',
+    source: 'p := `C:\\dir\\` // path\nq := `a // b\n/* c */` // multi',
+    comments: ['// path', '// multi'],
+  },
+  {
+    name: 'C# verbatim and raw strings',
+    file: 'A.cs',
+    source: [
+      'var p = @"C:\\dir\\"; // verbatim',
+      'var q = @"say ""// no"" ok"; // doubled',
+      'var r = """',
+      '  "// still string"',
+      '  """; // raw',
+    ].join('\n'),
+    comments: ['// verbatim', '// doubled', '// raw'],
+  },
+  {
+    name: 'Swift multi-line and raw strings',
+    file: 'A.swift',
+    source: [
+      'let m = """',
+      '  // not a comment',
+      '  """ // multi',
+      'let r = #"a "// no" \\"#; // raw',
+      'let rr = ##"""',
+      '  """# // no',
+      '  """## // long raw',
+    ].join('\n'),
+    comments: ['// multi', '// raw', '// long raw'],
+  },
+  {
+    name: 'PHP heredocs, nowdocs and attributes',
+    file: 'a.php',
+    source: [
+      '#[Route("/x")] // attr',
+      '$a = <<<EOT',
+      '  # not a comment {$b}',
+      '  EOT; // after',
+      '$c = <<<\'NOW\'',
+      '// raw',
+      'NOW;',
+      '# hash',
+    ].join('\n'),
+    comments: ['// attr', '// after', '# hash'],
+  },
+  {
+    name: 'Shell heredocs, including two on one line',
+    file: 'run.sh',
+    source: [
+      'cat <<EOF # opener',
+      '# body',
+      'EOF',
+      'paste <<-A <<\'B\'',
+      '\t# a',
+      '\tA',
+      '# b',
+      'B',
+      'cat <<<"# here-string" # real',
+    ].join('\n'),
+    comments: ['# opener', '# real'],
+  },
+  {
+    name: 'Shell here-strings and arithmetic shifts are not heredocs',
+    file: 'run.sh',
+    source: [
+      'grep x <<< foo',
+      '# comment one',
+      'y=$((x << y)) # shift',
+      'if ((a << b)); then :; fi',
+      '# two',
+    ].join('\n'),
+    comments: ['# comment one', '# shift', '# two'],
+  },
+  {
+    name: 'Ruby heredocs and shifts',
+    file: 'a.rb',
+    source: [
+      'sql = <<~SQL # opener',
+      '  # body',
+      '  SQL',
+      'list <<item # append',
+      '# end',
+    ].join('\n'),
+    comments: ['# opener', '# append', '# end'],
+  },
+  {
+    name: 'PowerShell here-strings',
+    file: 'a.ps1',
+    source: '$s = @"\n# body "quoted"\n"@ # after\n$t = @\'\n<# no #>\n\'@',
+    comments: ['# after'],
+  },
+  {
+    name: 'Java text blocks and Kotlin raw strings',
+    file: 'A.kt',
+    source: 'val s = """\n  C:\\dir\\ // no\n""" // raw',
+    comments: ['// raw'],
+  },
+]
+
+describe('lexRules', () => {
+  it.each(FIXTURES)('$name', ({ file, source, comments }) => {
+    expect(parseCommentRangesForFile(source, file).map((r) => source.slice(r.start, r.end))).toEqual(comments)
+  })
+
+  it('runs an unterminated raw string or heredoc to the end', () => {
+    expect(parseCommentRangesForFile('r#"open // x', 'a.rs')).toEqual([])
+    expect(parseCommentRangesForFile('cat <<EOF\n# x', 'a.sh')).toEqual([])
+  })
+})
@@ -0,0 +1,204 @@
+import type { TextRange } from '../shared/types'
+import type { LexRule } from './languages'
+
+export type LexMatch = {
+  /** Where the scan resumes; everything before it is code or string. */
+  end: number
+  /** Heredoc body on the following lines: skipped as a string once the scan gets there. */
+  body?: TextRange
+}
+
+export type LexRuleImpl = {
+  /** First chars the rule can match at; others skip it without a call. */
+  starters: string
+  /** `bodyFrom` is where a heredoc body may start (after any body still pending on this line). */
+  match: (text: string, at: number, bodyFrom: number) => LexMatch | null
+}
+
+/** After these, `/` starts a regex literal rather than dividing. */
+const REGEX_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await',
+])
+
+const RUST_CHAR = /'(?:\\(?:u\{[0-9a-fA-F_]{1,8}\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/uy
+const CPP_RAW_STRING = /(?:u8|[uUL])?R"([^()\\\s]{0,16})\(/y
+const PHP_HEREDOC = /<<<[ \t]*(["']?)([A-Za-z_]\w*)\1(?=\r?\n)/y
+const SHELL_HEREDOC = /<<(-?)[ \t]*(["']?)([A-Za-z_][\w.-]*)\2/y
+const RUBY_HEREDOC = /<<([~-]?)(["'`]?)([A-Za-z_]\w*)\2/y
+
+export const LEX_RULES: Record<LexRule, LexRuleImpl> = {
+  regex: {
+    starters: '/',
+    match: (text, at) => {
+      if (text[at + 1] === '/' || text[at + 1] === '*' || !regexAllowed(text, at)) return null
+      let inClass = false
+      for (let i = at + 1; i < text.length; i += 1) {
+        const ch = text[i]
+        if (ch === '\n') return null
+        if (ch === '\\') {
+          i += 1
+        } else if (inClass) {
+          if (ch === ']') inClass = false
+        } else if (ch === '[') {
+          inClass = true
+        } else if (ch === '/') {
+          let end = i + 1
+          while (end < text.length && /[a-z]/i.test(text[end])) end += 1
+          return { end }
+        }
+      }
+      return null
+    },
+  },
+
+  'rust-raw-string': {
+    starters: 'br',
+    match: (text, at) => {
+      if (isIdentChar(text[at - 1])) return null
+      let i = at
+      if (text[i] === 'b') i += 1
+      if (text[i] !== 'r') return null
+      i += 1
+      let hashes = 0
+      while (text[i] === '#') {
+        hashes += 1
+        i += 1
+      }
+      if (text[i] !== '"') return null
+      return { end: skipTo(text, i + 1, `"${'#'.repeat(hashes)}`) }
+    },
+  },
+
+  'rust-char': {
+    starters: '\'',
+    // Anything that isn't a char literal is a lifetime or loop label: just the quote.
+    match: (text, at) => ({ end: at + (matchAt(RUST_CHAR, text, at)?.[0].length ?? 1) }),
+  },
+
+  'cpp-raw-string': {
+    starters: 'uULR',
+    match: (text, at) => {
+      if (isIdentChar(text[at - 1])) return null
+      const m = matchAt(CPP_RAW_STRING, text, at)
+      return m ? { end: skipTo(text, at + m[0].length, `)${m[1]}"`) } : null
+    },
+  },
+
+  'digit-separator': {
+    starters: '\'',
+    match: (text, at) => {
+      if (!/[0-9a-fA-F]/.test(text[at - 1] ?? '') || !/[0-9a-fA-F]/.test(text[at + 1] ?? '')) return null
+      // Only inside a number: `1'000`, `0xFF'FF`, but not `u8'a'`.
+      let start = at
+      while (start > 0 && /[0-9A-Za-z'.]/.test(text[start - 1])) start -= 1
+      return /[0-9]/.test(text[start]) ? { end: at + 1 } : null
+    },
+  },
+
+  'swift-raw-string': {
+    starters: '#',
+    match: (text, at) => {
+      let i = at
+      while (text[i] === '#') i += 1
+      if (text[i] !== '"') return null
+      const hashes = '#'.repeat(i - at)
+      const quotes = text.startsWith('"""', i) ? '"""' : '"'
+      return { end: skipTo(text, i + quotes.length, quotes + hashes) }
+    },
+  },
+
+  'php-attribute': {
+    starters: '#',
+    match: (text, at) => (text[at + 1] === '[' ? { end: at + 2 } : null),
+  },
+
+  'php-heredoc': {
+    starters: '<',
+    match: (text, at, bodyFrom) => {
+      const m = matchAt(PHP_HEREDOC, text, at)
+      if (!m) return null
+      const end = at + m[0].length
+      return { end, body: heredocBody(text, Math.max(end, bodyFrom), m[2], true) }
+    },
+  },
+
+  'shell-heredoc': {
+    starters: '<',
+    match: (text, at, bodyFrom) => {
+      // `<<<` is a here-string, and `<<` inside `$(( ))` / `(( ))` is a shift.
+      if (text[at - 1] === '<' || insideArithmetic(text, at)) return null
+      const m = matchAt(SHELL_HEREDOC, text, at)
+      if (!m) return null
+      const end = at + m[0].length
+      return { end, body: heredocBody(text, Math.max(end, bodyFrom), m[3], m[1] === '-') }
+    },
+  },
+
+  'ruby-heredoc': {
+    starters: '<',
+    match: (text, at, bodyFrom) => {
+      const m = matchAt(RUBY_HEREDOC, text, at)
+      // A bare `<<x` is more likely a shift or an append than a heredoc; bare ids must be upper-case.
+      if (!m || (!m[1] && !m[2] && m[3] !== m[3].toUpperCase())) return null
+      const end = at + m[0].length
+      return { end, body: heredocBody(text, Math.max(end, bodyFrom), m[3], m[1] !== '') }
+    },
+  },
+}
+
+function isIdentChar(ch: string | undefined): boolean {
+  return ch !== undefined && /[A-Za-z0-9_$]/.test(ch)
+}
+
+function matchAt(pattern: RegExp, text: string, at: number): RegExpExecArray | null {
+  pattern.lastIndex = at
+  return pattern.exec(text)
+}
+
+/** Offset just past `close` (searched from `from`), or the end of the text. */
+function skipTo(text: string, from: number, close: string): number {
+  const index = text.indexOf(close, from)
+  return index >= 0 ? index + close.length : text.length
+}
+
+/** `/` is a regex after an operator, an opening bracket, a keyword or nothing; after a value it divides. */
+function regexAllowed(text: string, at: number): boolean {
+  let i = at - 1
+  while (i >= 0 && /\s/.test(text[i])) i -= 1
+  if (i < 0) return true
+  const prev = text[i]
+  if (isIdentChar(prev)) {
+    let start = i
+    while (start > 0 && isIdentChar(text[start - 1])) start -= 1
+    return REGEX_KEYWORDS.has(text.slice(start, i + 1))
+  }
+  // `<` too, so a JSX closing tag (`</div>`) isn't read as a regex.
+  return !')]\'"`<'.includes(prev)
+}
+
+/** Whether `at` sits inside a shell `((` ... `))` opened earlier on the same line. */
+function insideArithmetic(text: string, at: number): boolean {
+  const before = text.slice(text.lastIndexOf('\n', at - 1) + 1, at)
+  const open = before.lastIndexOf('((')
+  return open >= 0 && !before.includes('))', open)
+}
+
+/**
+ * Body of a heredoc whose opener ends at `from`: from the next line through the terminator
+ * `id` at the start of a line (after blanks when `indented`); to the end when unterminated.
+ */
+function heredocBody(text: string, from: number, id: string, indented: boolean): TextRange {
+  const newline = text.indexOf('\n', from)
+  if (newline < 0) return { start: text.length, end: text.length }
+  const start = newline + 1
+  let lineStart = start
+  while (lineStart < text.length) {
+    let i = lineStart
+    if (indented) while (text[i] === ' ' || text[i] === '\t') i += 1
+    if (text.startsWith(id, i) && !isIdentChar(text[i + id.length])) return { start, end: i + id.length }
+    const next = text.indexOf('\n', lineStart)
+    if (next < 0) break
+    lineStart = next + 1
+  }
+  return { start, end: text.length }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { Mark } from '../shared/types'
+import type { KeystrokeEvent } from '../shared/types'
+import {
+  computeAccuracyPercent,
+  computeConsistencyPercent,
+  computeCpm,
+  computeInterKeyIntervals,
+  computeKspc,
+  computeNetWpm,
+  computeRawWpm,
+} from './metrics'
+import { countUncorrectedErrors, createTypingEngine, handleBackspace, handleKey } from './typingEngine'
+
+function keyAt(atMs: number): KeystrokeEvent {
+  return { atMs, kind: 'key', offset: 0, expected: 'a', typed: 'a', mark: Mark.CORRECT }
+}
+
+describe('metrics', () => {
+  it('raw and net WPM count every keystroke and penalize mistakes', () => {
+    expect(computeRawWpm(300, 60_000)).toBe(60)
+    expect(computeNetWpm(300, 12, 60_000)).toBe(48)
+    expect(computeNetWpm(10, 50, 60_000)).toBe(0)
+    expect(computeRawWpm(300, 0)).toBe(0)
+  })
+
+  it('net WPM only subtracts mistakes left in the text', () => {
+    const fixed = createTypingEngine('abcde', 3, true, [], false, false, 'slack')
+    for (const ch of 'abx') handleKey(fixed, ch)
+    handleBackspace(fixed)
+    for (const ch of 'cde') handleKey(fixed, ch)
+    expect(fixed.incorrect).toBe(1)
+    expect(countUncorrectedErrors(fixed)).toBe(0)
+    expect(computeNetWpm(fixed.typedKeystrokes, countUncorrectedErrors(fixed), 6_000)).toBe(computeRawWpm(fixed.typedKeystrokes, 6_000))
+
+    const left = createTypingEngine('abcde', 3, true, [], false, false, 'free')
+    for (const ch of 'abxde') handleKey(left, ch)
+    expect(countUncorrectedErrors(left)).toBe(1)
+    expect(computeNetWpm(left.typedKeystrokes, countUncorrectedErrors(left), 6_000)).toBe(computeRawWpm(5, 6_000) - 10)
+  })
+
+  it('CPM and KSPC', () => {
+    expect(computeCpm(250, 30_000)).toBe(500)
+    expect(computeKspc(120, 100)).toBeCloseTo(1.2)
+    expect(computeKspc(10, 0)).toBe(0)
+  })
+
+  it('inter-key intervals drop idle gaps when asked', () => {
+    const events = [keyAt(0), keyAt(100), keyAt(300), keyAt(20_300), keyAt(20_400)]
+    expect(computeInterKeyIntervals(events)).toEqual([100, 200, 20_000, 100])
+    expect(computeInterKeyIntervals(events, 10_000)).toEqual([100, 200, 100])
+  })
+
+  it('inter-key intervals count one gap per input, not per logged event', () => {
+    // Tab logged as four same-time space events, then a steady rhythm.
+    const events = [keyAt(0), keyAt(100), keyAt(100), keyAt(100), keyAt(100), keyAt(200), keyAt(300)]
+    expect(computeInterKeyIntervals(events)).toEqual([100, 100, 100])
+    expect(computeConsistencyPercent(computeInterKeyIntervals(events))).toBe(100)
+  })
+
+  it('accuracy scores keystrokes, or the finished text under free flow', () => {
+    expect(computeAccuracyPercent('slack', 100, 90, 110, 10)).toBe(90)
+    expect(computeAccuracyPercent('strict', 100, 100, 100, 0)).toBe(100)
+    expect(computeAccuracyPercent('free', 100, 95, 140, 30)).toBe(95)
+    expect(computeAccuracyPercent('slack', 10, 5, 4, 4)).toBe(0)
+    expect(computeAccuracyPercent('free', 0, 0, 3, 0)).toBe(0)
+  })
+
+  it('consistency is 100 for a steady rhythm and drops with variance', () => {
+    expect(computeConsistencyPercent([120, 120, 120])).toBe(100)
+    expect(computeConsistencyPercent([100, 300])).toBeCloseTo(50)
+    expect(computeConsistencyPercent([100])).toBe(0)
+  })
+})
@@ -1,3 +1,5 @@
+import type { ErrorPolicy, KeystrokeEvent } from '../shared/types'
+
 export function computeWpm(correctChars: number, durationMs: number): number {
   if (!Number.isFinite(correctChars) || !Number.isFinite(durationMs)) return 0
   if (durationMs <= 0) return 0
@@ -15,3 +17,77 @@ export function computeUnproductivePercent(
   return ((incorrect + collateral + backspaces) / typedKeystrokes) * 100
 }
 
+/**
+ * Strict and slack policies score every char keystroke (backspaces excluded); free flow
+ * leaves mistakes in place, so it scores how much of the segment ended up correct.
+ */
+export function computeAccuracyPercent(
+  errorPolicy: ErrorPolicy,
+  typeableChars: number,
+  correctChars: number,
+  typedKeystrokes: number,
+  backspaces: number,
+): number {
+  const denominator = errorPolicy === 'free' ? typeableChars : (typedKeystrokes - backspaces)
+  if (!Number.isFinite(denominator) || denominator <= 0) return 0
+  return Math.min(100, Math.max(0, (correctChars / denominator) * 100))
+}
+
+function minutesOf(durationMs: number): number {
+  if (!Number.isFinite(durationMs) || durationMs <= 0) return 0
+  return durationMs / 60000
+}
+
+/** Every keystroke counts, corrections included. */
+export function computeRawWpm(typedKeystrokes: number, durationMs: number): number {
+  const minutes = minutesOf(durationMs)
+  if (minutes <= 0 || !Number.isFinite(typedKeystrokes)) return 0
+  return (typedKeystrokes / 5) / minutes
+}
+
+/**
+ * Raw WPM minus one word per minute for each mistake left in the text. Corrected mistakes
+ * already cost time and keystrokes, so they aren't subtracted again.
+ */
+export function computeNetWpm(typedKeystrokes: number, uncorrectedErrors: number, durationMs: number): number {
+  const minutes = minutesOf(durationMs)
+  if (minutes <= 0 || !Number.isFinite(uncorrectedErrors)) return 0
+  return Math.max(0, computeRawWpm(typedKeystrokes, durationMs) - uncorrectedErrors / minutes)
+}
+
+export function computeCpm(correctChars: number, durationMs: number): number {
+  const minutes = minutesOf(durationMs)
+  if (minutes <= 0 || !Number.isFinite(correctChars)) return 0
+  return correctChars / minutes
+}
+
+/** Keystrokes per correct character; 1 is a flawless run, higher means corrections. */
+export function computeKspc(typedKeystrokes: number, correctChars: number): number {
+  if (!Number.isFinite(typedKeystrokes) || !Number.isFinite(correctChars) || correctChars <= 0) return 0
+  return typedKeystrokes / correctChars
+}
+
+/**
+ * Time between consecutive logged keystrokes. Gaps longer than `maxGapMs` (idle pauses) are
+ * dropped so a break doesn't count as inconsistency; 0 keeps every gap. Events sharing the
+ * previous one's timestamp came from one input (Tab's spaces, a multi-char commit) and add no gap.
+ */
+export function computeInterKeyIntervals(events: KeystrokeEvent[], maxGapMs = 0): number[] {
+  const intervals: number[] = []
+  for (let i = 1; i < events.length; i += 1) {
+    const gap = events[i].atMs - events[i - 1].atMs
+    if (!Number.isFinite(gap) || gap <= 0) continue
+    if (maxGapMs > 0 && gap > maxGapMs) continue
+    intervals.push(gap)
+  }
+  return intervals
+}
+
+/** 100 minus the coefficient of variation of the intervals (in %), floored at 0. */
+export function computeConsistencyPercent(intervalsMs: number[]): number {
+  if (intervalsMs.length < 2) return 0
+  const mean = intervalsMs.reduce((sum, v) => sum + v, 0) / intervalsMs.length
+  if (mean <= 0) return 0
+  const variance = intervalsMs.reduce((sum, v) => sum + (v - mean) ** 2, 0) / intervalsMs.length
+  return Math.min(100, Math.max(0, 100 - (Math.sqrt(variance) / mean) * 100))
+}
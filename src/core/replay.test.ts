@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import type { Attempt } from '../shared/types'
+import { activeEventTimes, applyReplayEvents, canReplay, countEventsUntil, createReplayEngine } from './replay'
+import { makeAttempt, type Stroke } from './testUtils'
+
+function recordAttempt(text: string): Attempt {
+  const strokes: Stroke[] = [[1000, 'a'], [1200, 'x'], [1300, 'e'], [1500, null], [1600, null], [1800, 'd'], [1900, 'e']]
+  return makeAttempt(text, strokes, { slackN: 2 }, [{ start: 1, end: 3 }])
+}
+
+describe('replay', () => {
+  it('re-running all events reproduces the recorded counters and marks', () => {
+    const attempt = recordAttempt('abcde')
+    const replayed = applyReplayEvents(createReplayEngine(attempt), attempt.events ?? [], 0, Number.POSITIVE_INFINITY)
+
+    expect(replayed.cursor).toBe(5)
+    expect(replayed.typedKeystrokes).toBe(attempt.typedKeystrokes)
+    expect(replayed.incorrect).toBe(attempt.incorrect)
+    expect(replayed.collateral).toBe(attempt.collateral)
+    expect(replayed.backspaces).toBe(attempt.backspaces)
+    expect(replayed.correctChars).toBe(attempt.correctChars)
+  })
+
+  it('replaying in two chunks matches a single pass', () => {
+    const attempt = recordAttempt('abcde')
+    const events = attempt.events ?? []
+
+    const chunked = createReplayEngine(attempt)
+    applyReplayEvents(chunked, events, 0, 3)
+    expect(chunked.errorActive).toBe(true)
+    applyReplayEvents(chunked, events, 3, events.length)
+
+    const single = applyReplayEvents(createReplayEngine(attempt), events, 0, events.length)
+    expect(chunked.marks).toEqual(single.marks)
+    expect(chunked.cursor).toBe(single.cursor)
+  })
+
+  it('countEventsUntil counts events at or before an elapsed time', () => {
+    const times = activeEventTimes(recordAttempt('abcde'))
+    expect(times).toEqual([0, 200, 300, 500, 600, 800, 900])
+    expect(countEventsUntil(times, -1)).toBe(0)
+    expect(countEventsUntil(times, 0)).toBe(1)
+    expect(countEventsUntil(times, 550)).toBe(4)
+    expect(countEventsUntil(times, 5000)).toBe(times.length)
+  })
+
+  it('squeezes idle pauses out so a paused attempt still ends at durationMs', () => {
+    // 200 ms gaps with a 100 ms threshold: each one keeps 100 ms on the clock.
+    const attempt = { ...recordAttempt('abcde'), idleThresholdMs: 100, durationMs: 600, wallDurationMs: 900 }
+    const times = activeEventTimes(attempt)
+    expect(times).toEqual([0, 100, 200, 300, 400, 500, 600])
+    expect(countEventsUntil(times, attempt.durationMs)).toBe(times.length)
+  })
+
+  it('attempts without replay data are not replayable', () => {
+    expect(canReplay({ ...recordAttempt('abcde'), replay: undefined })).toBe(false)
+    expect(canReplay(recordAttempt('abcde'))).toBe(true)
+  })
+})
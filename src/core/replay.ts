@@ -0,0 +1,61 @@
+import type { Attempt, KeystrokeEvent } from '../shared/types'
+import { activeElapsedMs, createIdleClock, noteActivity } from './idleClock'
+import type { TypingEngineState } from './typingEngine'
+import { createTypingEngine, handleBackspace, handleKey, handleWordBackspace } from './typingEngine'
+
+export function canReplay(attempt: Attempt): boolean {
+  return Boolean(attempt.replay && attempt.events && attempt.events.length > 0)
+}
+
+export function createReplayEngine(attempt: Attempt): TypingEngineState {
+  const source = attempt.replay
+  return createTypingEngine(
+    source?.text ?? '',
+    attempt.slackN,
+    source?.autoSkipBlankLines ?? true,
+    source?.skipRanges ?? [],
+    source?.allowWhitespaceAdvanceToNewline ?? false,
+    false,
+    attempt.errorPolicy ?? 'slack',
+    source?.autoCloseBrackets ?? false,
+    source?.dedentStops ?? [],
+  )
+}
+
+export function applyReplayEvent(state: TypingEngineState, event: KeystrokeEvent): TypingEngineState {
+  if (event.kind === 'backspace') return handleBackspace(state, event.atMs)
+  if (event.kind === 'wordBackspace') return handleWordBackspace(state, event.atMs)
+  return handleKey(state, event.typed, event.atMs)
+}
+
+export function applyReplayEvents(state: TypingEngineState, events: KeystrokeEvent[], from: number, to: number): TypingEngineState {
+  const end = Math.min(events.length, to)
+  for (let i = Math.max(0, from); i < end; i += 1) applyReplayEvent(state, events[i])
+  return state
+}
+
+/**
+ * Event times on the attempt's active clock (ms since the start, idle pauses squeezed out the
+ * same way the live clock did), so they line up with `attempt.durationMs`. Ascending.
+ */
+export function activeEventTimes(attempt: Attempt): number[] {
+  const clock = createIdleClock(attempt.idleThresholdMs ?? 0)
+  noteActivity(clock, attempt.startAtMs)
+  return (attempt.events ?? []).map((event) => {
+    const atMs = Math.max(attempt.startAtMs, event.atMs)
+    noteActivity(clock, atMs)
+    return activeElapsedMs(clock, atMs)
+  })
+}
+
+/** Number of events that happened at or before `elapsedMs` (`times` from `activeEventTimes()`). */
+export function countEventsUntil(times: number[], elapsedMs: number): number {
+  let lo = 0
+  let hi = times.length
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (times[mid] <= elapsedMs) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
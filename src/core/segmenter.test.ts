@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { findClosestSegment, findSegmentForLine, splitByBlocksWithOffsets, splitByLinesWithOffsets } from './segmenter'
+
+function lineSpans(segments: { startLine: number; endLine: number }[]) {
+  return segments.map((s) => [s.startLine, s.endLine])
+}
+
+const TS_SOURCE = [
+  'import { a } from "a"',          // 1
+  '',                               // 2
+  '// Adds numbers.',               // 3
+  'export function add(x, y) {',    // 4
+  '  const s = "}"',                // 5
+  '  return x + y',                 // 6
+  '}',                              // 7
+  '',                               // 8
+  'function big() {',               // 9
+  '  if (x) {',                     // 10
+  '    a()',                        // 11
+  '  }',                            // 12
+  '  return 1',                     // 13
+  '}',                              // 14
+].join('\n')
+
+describe('segmenter', () => {
+  it('line mode cuts at the line budget regardless of structure', () => {
+    expect(lineSpans(splitByLinesWithOffsets(TS_SOURCE, 5))).toEqual([[1, 5], [6, 10], [11, 14]])
+  })
+
+  it('block mode keeps functions whole and leading comments attached', () => {
+    const segments = splitByBlocksWithOffsets(TS_SOURCE, 6)
+    expect(lineSpans(segments)).toEqual([[1, 2], [3, 8], [9, 14]])
+    expect(segments[1].text.startsWith('// Adds numbers.\nexport function add')).toBe(true)
+    expect(segments.map((s) => s.index)).toEqual([0, 1, 2])
+  })
+
+  it('block mode packs small units up to the line budget', () => {
+    expect(lineSpans(splitByBlocksWithOffsets(TS_SOURCE, 8))).toEqual([[1, 8], [9, 14]])
+    expect(lineSpans(splitByBlocksWithOffsets(TS_SOURCE, 200))).toEqual([[1, 14]])
+  })
+
+  it('keeps a class over the line budget whole, but opens one over the char cap into its members', () => {
+    const py = [
+      'class A:',         // 1
+      '    def f(self):', // 2
+      '        return 1', // 3
+      '',                 // 4
+      '    @property',    // 5
+      '    def g(self):', // 6
+      '        return 2', // 7
+      '',                 // 8
+      'def h():',         // 9
+      '    pass',         // 10
+    ].join('\n')
+    expect(lineSpans(splitByBlocksWithOffsets(py, 4))).toEqual([[1, 8], [9, 10]])
+    expect(lineSpans(splitByBlocksWithOffsets(py, 200, 4, 60))).toEqual([[1, 4], [5, 8], [9, 10]])
+  })
+
+  it('cuts a unit by lines only when it exceeds the char cap', () => {
+    const long = ['function f() {', ...Array.from({ length: 6 }, () => '  x()'), '}'].join('\n')
+    expect(lineSpans(splitByBlocksWithOffsets(long, 200))).toEqual([[1, 8]])
+    const segments = splitByBlocksWithOffsets(long, 200, 4, 30)
+    expect(lineSpans(segments)).toEqual([[1, 3], [4, 8]])
+    expect(segments.every((s) => s.text.length <= 30)).toBe(true)
+  })
+
+  it('finds the segment containing a line', () => {
+    const segments = splitByLinesWithOffsets(TS_SOURCE, 5)
+    expect(findSegmentForLine(segments, 1)).toBe(0)
+    expect(findSegmentForLine(segments, 6)).toBe(1)
+    expect(findSegmentForLine(segments, 14)).toBe(2)
+    expect(findSegmentForLine(segments, 99)).toBe(2)
+    expect(findSegmentForLine([], 3)).toBe(0)
+  })
+
+  it('maps a line range to the most overlapping segment', () => {
+    const segments = [{ startLine: 1, endLine: 10 }, { startLine: 11, endLine: 20 }, { startLine: 25, endLine: 30 }]
+    expect(findClosestSegment(segments, 11, 20)).toBe(1)
+    expect(findClosestSegment(segments, 8, 14)).toBe(1)
+    expect(findClosestSegment(segments, 6, 15)).toBe(0)
+    expect(findClosestSegment(segments, 22, 23)).toBe(1)
+    expect(findClosestSegment(segments, 24, 24)).toBe(2)
+    expect(findClosestSegment(segments, 90, 95)).toBe(2)
+  })
+})
@@ -1,4 +1,4 @@
-import type { TextSegment } from '../shared/types'
+import type { TextRange, TextSegment } from '../shared/types'
 
 export function normalizeText(input: string, tabWidth = 4): string {
   let text = input
@@ -118,3 +118,228 @@ export function splitByLinesWithOffsets(input: string, linesPerSegment = 200, ta
 export function splitByLines(input: string, linesPerSegment = 200, tabWidth = 4, maxSegmentChars = 20_000): TextSegment[] {
   return splitByLinesWithOffsets(input, linesPerSegment, tabWidth, maxSegmentChars).map(({ startOffset, endOffset, ...seg }) => seg)
 }
+
+/** Lines that close or continue the construct above them, even at column 0. */
+const CONTINUATION_LINE = /^(end|else|elif|elsif|except|finally|catch|fi|done|esac)\b/
+/** Lines that belong to the declaration below them (decorators, attributes, doc comments). */
+const LEADING_LINE = /^(@|#\[|\/\/|\/\*|\*|#|--|;)/
+
+/**
+ * Bracket depth change of one line. Quoted strings on the line and `ignoreMask`ed chars
+ * (comments) don't count.
+ */
+function bracketDelta(normalized: string, start: number, end: number, ignoreMask: Uint8Array | null): number {
+  let delta = 0
+  let quote = ''
+  for (let i = start; i < end; i += 1) {
+    if (ignoreMask?.[i]) continue
+    const ch = normalized[i]
+    if (quote) {
+      if (ch === '\\') i += 1
+      else if (ch === quote) quote = ''
+      continue
+    }
+    if (ch === '"' || ch === '\'' || ch === '`') quote = ch
+    else if (ch === '{' || ch === '(' || ch === '[') delta += 1
+    else if (ch === '}' || ch === ')' || ch === ']') delta -= 1
+  }
+  return delta
+}
+
+function indentOf(line: string): number {
+  let n = 0
+  while (n < line.length && line[n] === ' ') n += 1
+  return n
+}
+
+type LineIndex = {
+  normalized: string
+  lines: string[]
+  lineStartOffsets: number[]
+  ignoreMask: Uint8Array | null
+}
+
+/**
+ * First line of every unit in lines `first..last` that should stay together: a declaration
+ * starting at `baseIndent` outside any bracket opened within the range, up to the next one, with
+ * its leading comments/decorators. The first unit always starts at `first`.
+ */
+function findUnitStarts(index: LineIndex, first: number, last: number, baseIndent: number): number[] {
+  const { normalized, lines, lineStartOffsets, ignoreMask } = index
+  const starts: number[] = [first]
+  let depth = 0
+  let leadingStart = -1
+  for (let i = first; i <= last; i += 1) {
+    const line = lines[i]
+    const isBlank = line.trim().length === 0
+    const atBase = !isBlank && indentOf(line) === baseIndent
+    const unitLine = depth === 0 && atBase && !CONTINUATION_LINE.test(line.slice(baseIndent))
+
+    if (unitLine) {
+      const start = leadingStart >= 0 ? leadingStart : i
+      if (start > starts[starts.length - 1]) starts.push(start)
+      leadingStart = LEADING_LINE.test(line.slice(baseIndent)) ? start : -1
+    } else if (isBlank) {
+      leadingStart = -1
+    }
+
+    depth = Math.max(0, depth + bracketDelta(normalized, lineStartOffsets[i], lineStartOffsets[i] + line.length, ignoreMask))
+  }
+  return starts
+}
+
+type LineRange = { first: number; last: number }
+
+/**
+ * Units of lines `first..last`. A unit over `charLimit` chars is opened up into its members
+ * (the body's own units, the header line joining the first and the closing line the last) so
+ * that e.g. a class too big for one segment is practised a method at a time.
+ */
+function collectUnits(index: LineIndex, first: number, last: number, baseIndent: number, charLimit: number, out: LineRange[]) {
+  const starts = findUnitStarts(index, first, last, baseIndent)
+  for (let u = 0; u < starts.length; u += 1) {
+    const unit = { first: starts[u], last: u + 1 < starts.length ? starts[u + 1] - 1 : last }
+    const chars = index.lineStartOffsets[unit.last] + index.lines[unit.last].length - index.lineStartOffsets[unit.first]
+    if (chars <= charLimit) {
+      out.push(unit)
+      continue
+    }
+
+    let bodyIndent = Number.POSITIVE_INFINITY
+    for (let i = unit.first + 1; i <= unit.last; i += 1) {
+      if (index.lines[i].trim().length > 0) bodyIndent = Math.min(bodyIndent, indentOf(index.lines[i]))
+    }
+    const members: LineRange[] = []
+    if (Number.isFinite(bodyIndent) && bodyIndent > baseIndent) {
+      collectUnits(index, unit.first + 1, unit.last, bodyIndent, charLimit, members)
+    }
+    if (members.length <= 1) {
+      out.push(unit)
+      continue
+    }
+    members[0].first = unit.first
+    out.push(...members)
+  }
+}
+
+/**
+ * Like the line splitter, but packs whole top-level units (functions, classes, brace or
+ * indentation blocks) into segments of up to `linesPerSegment` lines. A unit longer than that
+ * still gets a segment of its own; only one over `maxSegmentChars` is split, into its members
+ * where it has them and otherwise by lines.
+ * `ignoreRanges` (comments) keep brackets in comments from throwing off the depth count.
+ */
+function splitNormalizedByBlocksWithOffsets(
+  normalized: string,
+  linesPerSegment = 200,
+  maxSegmentChars = 20_000,
+  ignoreRanges: TextRange[] = [],
+): TextSegmentWithOffsets[] {
+  const lines = normalized.split('\n')
+  const per = Number.isFinite(linesPerSegment) ? Math.max(1, Math.floor(linesPerSegment)) : 200
+  const charLimit = Number.isFinite(maxSegmentChars) && maxSegmentChars > 0
+    ? Math.max(1, Math.floor(maxSegmentChars))
+    : Number.POSITIVE_INFINITY
+
+  const lineStartOffsets: number[] = new Array(lines.length)
+  {
+    let offset = 0
+    for (let i = 0; i < lines.length; i += 1) {
+      lineStartOffsets[i] = offset
+      offset += lines[i].length + 1
+    }
+  }
+  const lineEndOffset = (lineIndex: number) => lineStartOffsets[lineIndex] + lines[lineIndex].length
+
+  let ignoreMask: Uint8Array | null = null
+  if (ignoreRanges.length > 0) {
+    ignoreMask = new Uint8Array(normalized.length)
+    for (const r of ignoreRanges) ignoreMask.fill(1, Math.max(0, r.start), Math.min(normalized.length, r.end))
+  }
+  const units: LineRange[] = []
+  collectUnits({ normalized, lines, lineStartOffsets, ignoreMask }, 0, lines.length - 1, 0, charLimit, units)
+
+  const segments: TextSegmentWithOffsets[] = []
+  const pushRange = (firstLine: number, lastLine: number) => {
+    const startOffset = lineStartOffsets[firstLine]
+    const endOffset = lineEndOffset(lastLine)
+    if (endOffset - startOffset <= charLimit) {
+      segments.push({
+        index: segments.length,
+        startLine: firstLine + 1,
+        endLine: lastLine + 1,
+        text: normalized.slice(startOffset, endOffset),
+        startOffset,
+        endOffset,
+      })
+      return
+    }
+    // Too big to keep whole: fall back to the line splitter within the range.
+    for (const seg of splitNormalizedByLinesWithOffsets(normalized.slice(startOffset, endOffset), per, charLimit)) {
+      segments.push({
+        ...seg,
+        index: segments.length,
+        startLine: seg.startLine + firstLine,
+        endLine: seg.endLine + firstLine,
+        startOffset: seg.startOffset + startOffset,
+        endOffset: seg.endOffset + startOffset,
+      })
+    }
+  }
+
+  let packStart = -1
+  let packEnd = -1
+  for (const unit of units) {
+    if (packStart >= 0) {
+      const lineCount = unit.last - packStart + 1
+      const charCount = lineEndOffset(unit.last) - lineStartOffsets[packStart]
+      if (lineCount <= per && charCount <= charLimit) {
+        packEnd = unit.last
+        continue
+      }
+      pushRange(packStart, packEnd)
+    }
+    packStart = unit.first
+    packEnd = unit.last
+  }
+  if (packStart >= 0) pushRange(packStart, packEnd)
+
+  return segments
+}
+
+export function splitByBlocksWithOffsets(
+  input: string,
+  linesPerSegment = 200,
+  tabWidth = 4,
+  maxSegmentChars = 20_000,
+  ignoreRanges: TextRange[] = [],
+): TextSegmentWithOffsets[] {
+  const normalized = normalizeText(input, tabWidth)
+  return splitNormalizedByBlocksWithOffsets(normalized, linesPerSegment, maxSegmentChars, ignoreRanges)
+}
+
+/** Index of the segment containing 1-based `line` (the next one when it falls in a gap, the last past the end). */
+export function findSegmentForLine(segments: Pick<TextSegment, 'startLine' | 'endLine'>[], line: number): number {
+  const index = segments.findIndex((s) => s.endLine >= line)
+  return index >= 0 ? index : Math.max(0, segments.length - 1)
+}
+
+/**
+ * Index of the segment overlapping lines `startLine..endLine` the most (e.g. after re-segmenting
+ * an edited file); without any overlap, the one nearest to the range. Ties go to the earlier one.
+ */
+export function findClosestSegment(segments: Pick<TextSegment, 'startLine' | 'endLine'>[], startLine: number, endLine: number): number {
+  let best = 0
+  let bestOverlap = -1
+  let bestDistance = Infinity
+  segments.forEach((s, i) => {
+    const overlap = Math.min(s.endLine, endLine) - Math.max(s.startLine, startLine) + 1
+    const distance = overlap > 0 ? 0 : Math.max(s.startLine - endLine, startLine - s.endLine)
+    if (overlap > bestOverlap || (overlap <= 0 && bestOverlap <= 0 && distance < bestDistance)) {
+      best = i
+      bestOverlap = Math.max(0, overlap)
+      bestDistance = distance
+    }
+  })
+  return best
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest'
-import { computeSkippableLineBreakRanges, computeTrailingWhitespaceRanges } from './skipRanges'
+import { computeAutoIndentPlan, computeSkippableLineBreakRanges, computeTrailingWhitespaceRanges, spacesToIndentStop } from './skipRanges'
 
 describe('computeSkippableLineBreakRanges', () => {
   it('does not skip newlines on printable lines', () => {
@@ -34,3 +34,47 @@ describe('computeTrailingWhitespaceRanges', () => {
     ])
   })
 })
+
+describe('computeAutoIndentPlan', () => {
+  it('skips carried-over indentation and leaves extra levels typeable', () => {
+    const text = '  if x {\n    y\n  }'
+    expect(computeAutoIndentPlan(text, 2)).toEqual({
+      skipRanges: [{ start: 0, end: 2 }, { start: 9, end: 11 }, { start: 15, end: 17 }],
+      dedentStops: [{ offset: 17, count: 1 }],
+      indentStops: [13],
+    })
+  })
+
+  it('counts one Backspace per tab stop when dedenting', () => {
+    const text = 'def f():\n        return 1\nx'
+    expect(computeAutoIndentPlan(text, 4).dedentStops).toEqual([{ offset: 26, count: 2 }])
+  })
+
+  it('leaves indentation below an off-grid tab stop typeable', () => {
+    const text = 'a\n      b\n  c'
+    expect(computeAutoIndentPlan(text, 4)).toEqual({
+      skipRanges: [],
+      dedentStops: [{ offset: 10, count: 2 }],
+      indentStops: [6, 8, 12],
+    })
+  })
+
+  it('ignores whitespace-only lines when carrying indentation', () => {
+    const text = '    a\n  \n    b'
+    expect(computeAutoIndentPlan(text, 4)).toEqual({
+      skipRanges: [{ start: 0, end: 4 }, { start: 6, end: 8 }, { start: 9, end: 13 }],
+      dedentStops: [],
+      indentStops: [],
+    })
+  })
+
+  it('stops Tab at each tab stop and the end of the typeable indentation', () => {
+    const text = 'a\n      b'
+    const { indentStops } = computeAutoIndentPlan(text, 4)
+    expect(spacesToIndentStop(text, indentStops, 2)).toBe(4)
+    expect(spacesToIndentStop(text, indentStops, 4)).toBe(2)
+    expect(spacesToIndentStop(text, indentStops, 7)).toBe(1)
+    expect(spacesToIndentStop(text, indentStops, 8)).toBeNull()
+    expect(spacesToIndentStop(text, indentStops, 0)).toBeNull()
+  })
+})
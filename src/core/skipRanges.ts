@@ -1,4 +1,4 @@
-import type { TextRange } from '../shared/types'
+import type { DedentStop, TextRange } from '../shared/types'
 
 export function mergeRanges(ranges: TextRange[], maxLen: number): TextRange[] {
   if (ranges.length === 0) return []
@@ -47,6 +47,72 @@ export function computeLeadingIndentationRanges(text: string): TextRange[] {
   return ranges
 }
 
+export type AutoIndentPlan = {
+  skipRanges: TextRange[]
+  dedentStops: DedentStop[]
+  /** Offsets where a Tab in the typeable indentation stops: each tab stop, then the line's indent. */
+  indentStops: number[]
+}
+
+/**
+ * Editor auto-indent: Enter carries the previous non-blank line's indentation over, so that
+ * part is skipped. Deeper indentation stays typeable (Tab goes one tab stop at a time), and
+ * shallower indentation needs one Backspace per indent unit (tab stop) at the point the cursor lands.
+ */
+export function computeAutoIndentPlan(text: string, indentUnit: number): AutoIndentPlan {
+  const unit = Number.isFinite(indentUnit) ? Math.max(1, Math.floor(indentUnit)) : 4
+  const skipRanges: TextRange[] = []
+  const dedentStops: DedentStop[] = []
+  const indentStops: number[] = []
+  let prevIndent = -1
+  let lineStart = 0
+
+  for (let i = 0; i <= text.length; i += 1) {
+    const isLineBreak = i === text.length || text[i] === '\n'
+    if (!isLineBreak) continue
+
+    const lineEnd = i
+    let j = lineStart
+    while (j < lineEnd && text[j] === ' ') j += 1
+    const indent = j - lineStart
+
+    if (j === lineEnd) {
+      // Whitespace-only lines keep nothing worth typing and don't change the carried indent.
+      if (indent > 0) skipRanges.push({ start: lineStart, end: j })
+    } else {
+      let carried = prevIndent < 0 ? indent : Math.min(prevIndent, indent)
+      if (prevIndent > indent) {
+        let width = prevIndent
+        let count = 0
+        while (width > indent) {
+          width = Math.floor((width - 1) / unit) * unit
+          count += 1
+        }
+        carried = width
+        dedentStops.push({ offset: lineStart + carried, count })
+      }
+      if (carried > 0) skipRanges.push({ start: lineStart, end: lineStart + carried })
+      for (let width = (Math.floor(carried / unit) + 1) * unit; width < indent; width += unit) indentStops.push(lineStart + width)
+      if (indent > carried) indentStops.push(lineStart + indent)
+      prevIndent = indent
+    }
+
+    lineStart = i + 1
+  }
+
+  return { skipRanges, dedentStops, indentStops }
+}
+
+/** Spaces a Tab at `cursor` types to reach the next indent stop on its line, or null outside typeable indentation. */
+export function spacesToIndentStop(text: string, indentStops: number[], cursor: number): number | null {
+  const stop = indentStops.find((offset) => offset > cursor)
+  if (stop === undefined) return null
+  for (let i = cursor; i < stop; i += 1) {
+    if (text[i] !== ' ') return null
+  }
+  return stop - cursor
+}
+
 export function computeTrailingWhitespaceRanges(text: string): TextRange[] {
   const ranges: TextRange[] = []
   let lineStart = 0
@@ -0,0 +1,49 @@
+import type { Attempt, TextRange } from '../shared/types'
+import { createTypingEngine, handleBackspace, handleKey } from './typingEngine'
+
+/** One recorded keystroke for tests: a key, or `null` for Backspace. */
+export type Stroke = [atMs: number, key: string | null]
+
+/**
+ * A saved attempt as Typing would store it, built by running `strokes` through a recording
+ * engine (slack policy, `overrides.slackN` or 3). Times span the first to the last stroke.
+ */
+export function makeAttempt(text: string, strokes: Stroke[], overrides: Partial<Attempt> = {}, skipRanges: TextRange[] = []): Attempt {
+  const s = createTypingEngine(text, overrides.slackN ?? 3, true, skipRanges, false, true)
+  for (const [atMs, key] of strokes) {
+    if (key === null) handleBackspace(s, atMs)
+    else handleKey(s, key, atMs)
+  }
+  const startAtMs = strokes[0]?.[0] ?? 0
+  const endAtMs = strokes[strokes.length - 1]?.[0] ?? startAtMs
+  return {
+    id: crypto.randomUUID(),
+    filePath: '/src/a.ts',
+    fileName: 'a.ts',
+    segmentIndex: 0,
+    segmentStartLine: 1,
+    segmentEndLine: 1,
+    linesPerSegment: 200,
+    tabWidth: 4,
+    slackN: s.slackN,
+    typeableChars: s.typeableChars,
+    typedKeystrokes: s.typedKeystrokes,
+    incorrect: s.incorrect,
+    collateral: s.collateral,
+    backspaces: s.backspaces,
+    correctChars: s.correctChars,
+    startAtMs,
+    endAtMs,
+    durationMs: endAtMs - startAtMs,
+    wpm: 0,
+    unproductivePercent: 0,
+    events: s.events,
+    replay: {
+      text: s.text,
+      skipRanges: s.skipRanges,
+      autoSkipBlankLines: s.autoSkipBlankLines,
+      allowWhitespaceAdvanceToNewline: s.allowWhitespaceAdvanceToNewline,
+    },
+    ...overrides,
+  }
+}
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { Mark } from '../shared/types'
-import { createTypingEngine, handleBackspace, handleKey, isComplete } from './typingEngine'
+import { countWordDeletePositions, createTypingEngine, handleBackspace, handleKey, handleWordBackspace, isComplete, pendingDedents, restoreTypingEngine } from './typingEngine'
 
 describe('typingEngine', () => {
   it('all correct input completes with zero errors', () => {
@@ -186,4 +186,302 @@ describe('typingEngine', () => {
     expect(s.incorrect).toBe(0)
     expect(s.collateral).toBe(0)
   })
+
+  it('event log is off by default', () => {
+    const s = createTypingEngine('ab', 3)
+    handleKey(s, 'a')
+    expect(s.events).toBeUndefined()
+  })
+
+  it('event log records offset, expected/typed chars and resulting mark', () => {
+    const s = createTypingEngine('abc', 3, true, [], false, true)
+    handleKey(s, 'a', 1000)
+    handleKey(s, 'x', 1100)
+    handleBackspace(s, 1250)
+    handleKey(s, 'b', 1400)
+
+    expect(s.events).toEqual([
+      { atMs: 1000, kind: 'key', offset: 0, expected: 'a', typed: 'a', mark: Mark.CORRECT },
+      { atMs: 1100, kind: 'key', offset: 1, expected: 'b', typed: 'x', mark: Mark.INCORRECT },
+      { atMs: 1250, kind: 'backspace', offset: 1, expected: 'b', typed: '', mark: Mark.UNTOUCHED },
+      { atMs: 1400, kind: 'key', offset: 1, expected: 'b', typed: 'b', mark: Mark.CORRECT },
+    ])
+  })
+
+  it('event log records keys pressed while locked at the blocked offset', () => {
+    const s = createTypingEngine('abcd', 0, true, [], false, true)
+    handleKey(s, 'x', 10) // incorrect at 0
+    handleKey(s, 'b', 20) // exceeds slack 0 => locked at cursor 1
+
+    expect(s.locked).toBe(true)
+    expect(s.events?.[1]).toEqual({ atMs: 20, kind: 'key', offset: 1, expected: 'b', typed: 'b', mark: Mark.UNTOUCHED })
+  })
+
+  it('event log records a key that steps over an auto-closer at the char it typed', () => {
+    const s = createTypingEngine('f(a);', 3, true, [], false, true, 'slack', true)
+    for (const ch of 'f(a;') handleKey(s, ch, 10)
+
+    expect(isComplete(s)).toBe(true)
+    expect(s.events?.[3]).toEqual({ atMs: 10, kind: 'key', offset: 4, expected: ';', typed: ';', mark: Mark.CORRECT })
+  })
+
+  it('strict policy holds the cursor on a mistake until the expected key', () => {
+    const s = createTypingEngine('abc', 3, true, [], false, false, 'strict')
+    handleKey(s, 'a')
+    handleKey(s, 'x') // rejected at 1
+    handleKey(s, 'y') // rejected again
+
+    expect(s.cursor).toBe(1)
+    expect(s.incorrect).toBe(2)
+    expect(s.collateral).toBe(0)
+    expect(s.locked).toBe(false)
+    expect(s.marks[1]).toBe(Mark.INCORRECT)
+    expect(isComplete(s)).toBe(false)
+
+    handleKey(s, 'b')
+    handleKey(s, 'c')
+    expect(s.errorActive).toBe(false)
+    expect(s.marks).toEqual([Mark.CORRECT, Mark.CORRECT, Mark.CORRECT])
+    expect(s.correctChars).toBe(3)
+    expect(s.backspaces).toBe(0)
+    expect(isComplete(s)).toBe(true)
+  })
+
+  it('strict policy: backspace while held only clears the error', () => {
+    const s = createTypingEngine('abc', 3, true, [], false, false, 'strict')
+    handleKey(s, 'a')
+    handleKey(s, 'x')
+    handleBackspace(s)
+
+    expect(s.cursor).toBe(1)
+    expect(s.errorActive).toBe(false)
+    expect(s.typedPositions).toEqual([0])
+    expect(s.marks).toEqual([Mark.CORRECT, Mark.UNTOUCHED, Mark.UNTOUCHED])
+
+    handleKey(s, 'b')
+    handleKey(s, 'x')
+    handleWordBackspace(s)
+    expect(s.cursor).toBe(2)
+    expect(s.marks).toEqual([Mark.CORRECT, Mark.CORRECT, Mark.UNTOUCHED])
+  })
+
+  it('free flow policy lets mistakes through without locking', () => {
+    const s = createTypingEngine('abcd', 0, true, [], false, false, 'free')
+    handleKey(s, 'x')
+    handleKey(s, 'b')
+    handleKey(s, 'y')
+    handleKey(s, 'd')
+
+    expect(s.locked).toBe(false)
+    expect(s.errorActive).toBe(false)
+    expect(s.incorrect).toBe(2)
+    expect(s.collateral).toBe(0)
+    expect(s.correctChars).toBe(2)
+    expect(s.freeErrorPositions).toEqual([0, 2])
+    expect(s.marks).toEqual([Mark.INCORRECT, Mark.CORRECT, Mark.INCORRECT, Mark.CORRECT])
+    expect(isComplete(s)).toBe(true)
+  })
+
+  it('free flow policy: backspacing over a mistake forgets it', () => {
+    const s = createTypingEngine('ab', 3, true, [], false, false, 'free')
+    handleKey(s, 'a')
+    handleKey(s, 'x')
+    handleBackspace(s)
+    handleKey(s, 'b')
+
+    expect(s.freeErrorPositions).toEqual([])
+    expect(s.marks).toEqual([Mark.CORRECT, Mark.CORRECT])
+    expect(s.incorrect).toBe(1)
+  })
+
+  it('word delete removes an identifier run in one keystroke', () => {
+    const s = createTypingEngine('foo.barBaz', 3)
+    for (const ch of 'foo.barBaz') handleKey(s, ch)
+
+    handleWordBackspace(s)
+    expect(s.cursor).toBe(4)
+    expect(s.correctChars).toBe(4)
+    expect(s.backspaces).toBe(1)
+    expect(s.typedKeystrokes).toBe(11)
+
+    handleWordBackspace(s) // punctuation run
+    expect(s.cursor).toBe(3)
+    handleWordBackspace(s)
+    expect(s.cursor).toBe(0)
+    expect(s.marks.every((m) => m === Mark.UNTOUCHED)).toBe(true)
+  })
+
+  it('word delete eats trailing spaces with the preceding run and stops at newlines', () => {
+    const s = createTypingEngine('a\nx => ', 3)
+    for (const ch of 'a\nx => ') handleKey(s, ch)
+
+    expect(countWordDeletePositions(s)).toBe(3) // "=> "
+    handleWordBackspace(s)
+    expect(s.cursor).toBe(4)
+    handleWordBackspace(s) // " " + "x"
+    expect(s.cursor).toBe(2)
+    handleWordBackspace(s) // newline alone
+    expect(s.cursor).toBe(1)
+  })
+
+  it('word delete stops at a skipped range', () => {
+    const s = createTypingEngine('ab/*c*/cd', 3, true, [{ start: 2, end: 7 }])
+    for (const ch of 'abcd') handleKey(s, ch)
+
+    handleWordBackspace(s)
+    expect(s.cursor).toBe(7)
+    expect(s.correctChars).toBe(2)
+  })
+
+  it('word delete clears the error state when it reaches the first mistake', () => {
+    const s = createTypingEngine('let value', 3)
+    for (const ch of 'let vxl') handleKey(s, ch)
+    expect(s.errorActive).toBe(true)
+    expect(s.collateral).toBe(1)
+
+    handleWordBackspace(s)
+    expect(s.cursor).toBe(4)
+    expect(s.errorActive).toBe(false)
+    expect(s.locked).toBe(false)
+    expect(s.firstErrorIndex).toBe(-1)
+    expect(s.correctChars).toBe(4)
+    expect(s.marks.slice(4)).toEqual([Mark.UNTOUCHED, Mark.UNTOUCHED, Mark.UNTOUCHED, Mark.UNTOUCHED, Mark.UNTOUCHED])
+  })
+
+  it('auto-close steps over the closer inserted for a typed opener', () => {
+    const s = createTypingEngine('f(a);', 3, true, [], false, false, 'slack', true)
+    for (const ch of 'f(a;') handleKey(s, ch)
+
+    expect(isComplete(s)).toBe(true)
+    expect(s.marks[3]).toBe(Mark.CORRECT)
+    expect(s.correctChars).toBe(4)
+    expect(s.typeableChars).toBe(4)
+    expect(s.autoClosePending).toEqual([])
+  })
+
+  it('auto-close lets the closer be typed over', () => {
+    const s = createTypingEngine('f(a);', 3, true, [], false, false, 'slack', true)
+    for (const ch of 'f(a)') handleKey(s, ch)
+
+    expect(s.cursor).toBe(4)
+    expect(s.correctChars).toBe(4)
+    expect(s.autoClosePending).toEqual([])
+    handleKey(s, ';')
+    expect(isComplete(s)).toBe(true)
+  })
+
+  it('auto-close completes once only inserted closers remain', () => {
+    const s = createTypingEngine('{\n  x("a")\n}', 3, true, [{ start: 2, end: 4 }], false, false, 'slack', true)
+    for (const ch of '{\nx("a') handleKey(s, ch)
+
+    expect(s.cursor).toBe(8)
+    expect(s.autoClosePending).toEqual([11, 9, 8])
+    handleKey(s, '"')
+    expect(s.autoClosePending).toEqual([11, 9])
+    handleKey(s, '\n')
+    expect(isComplete(s)).toBe(true)
+    expect(s.typeableChars).toBe(8)
+  })
+
+  it('auto-close: backspace restores stepped-over closers and drops them with their opener', () => {
+    const s = createTypingEngine('(a)b', 3, true, [], false, false, 'slack', true)
+    for (const ch of '(ab') handleKey(s, ch)
+    expect(isComplete(s)).toBe(true)
+
+    handleBackspace(s)
+    expect(s.cursor).toBe(3)
+    handleBackspace(s)
+    expect(s.cursor).toBe(1)
+    expect(s.marks[2]).toBe(Mark.UNTOUCHED)
+    expect(s.autoClosePending).toEqual([2])
+    expect(s.typeableChars).toBe(4)
+
+    handleBackspace(s)
+    expect(s.autoClosePending).toEqual([])
+    for (const ch of '(a)b') handleKey(s, ch)
+    expect(isComplete(s)).toBe(true)
+    expect(s.correctChars).toBe(4)
+  })
+
+  it('auto-close only follows a correctly typed opener', () => {
+    const s = createTypingEngine('(a)', 3, true, [], false, false, 'free', true)
+    for (const ch of '[a') handleKey(s, ch)
+
+    expect(s.autoClosePending).toEqual([])
+    expect(isComplete(s)).toBe(false)
+  })
+
+  it('auto-indent dedent: Backspace removes carried indentation before typing resumes', () => {
+    // "{\n  x\n}": line 2 carries nothing extra beyond "{", the closing line needs one dedent.
+    const s = createTypingEngine('{\n  x\n}', 3, true, [], false, false, 'slack', false, [{ offset: 6, count: 1 }])
+    for (const ch of '{\n  x\n') handleKey(s, ch)
+
+    expect(s.cursor).toBe(6)
+    expect(pendingDedents(s)).toBe(1)
+    handleKey(s, '}')
+    expect(s.cursor).toBe(6)
+    expect(s.incorrect).toBe(1)
+
+    handleBackspace(s)
+    expect(pendingDedents(s)).toBe(0)
+    expect(s.backspaces).toBe(0)
+    expect(s.dedentKeystrokes).toBe(1)
+    handleKey(s, '}')
+    expect(isComplete(s)).toBe(true)
+  })
+
+  it('auto-indent dedent: undoing the newline asks for the dedent again', () => {
+    const s = createTypingEngine('{\n  x\n}', 3, true, [], false, false, 'slack', false, [{ offset: 6, count: 1 }])
+    for (const ch of '{\n  x\n') handleKey(s, ch)
+    handleBackspace(s)
+    handleKey(s, '}')
+    handleBackspace(s)
+    expect(s.cursor).toBe(6)
+    expect(pendingDedents(s)).toBe(0)
+
+    handleBackspace(s)
+    expect(s.cursor).toBe(5)
+    expect(s.dedentsDone).toEqual([])
+    handleKey(s, '\n')
+    expect(pendingDedents(s)).toBe(1)
+  })
+
+  it('auto-indent dedent: word backspace dedents like Backspace instead of deleting text', () => {
+    const s = createTypingEngine('{\n  x\n}', 3, true, [], false, false, 'slack', false, [{ offset: 6, count: 1 }])
+    for (const ch of '{\n  x\n') handleKey(s, ch)
+
+    handleWordBackspace(s)
+    expect(s.cursor).toBe(6)
+    expect(pendingDedents(s)).toBe(0)
+    expect(s.backspaces).toBe(0)
+    expect(s.dedentKeystrokes).toBe(1)
+    handleKey(s, '}')
+    expect(isComplete(s)).toBe(true)
+  })
+
+  it('restores a serialized engine and keeps typing from there', () => {
+    const s = createTypingEngine('let x = 1', 3, true, [], false, true)
+    for (const ch of 'let y') handleKey(s, ch, 1000)
+
+    const restored = restoreTypingEngine(JSON.parse(JSON.stringify(s)), 'let x = 1')
+    expect(restored).not.toBeNull()
+    if (!restored) return
+    expect(restored.errorActive).toBe(true)
+    expect(restored.events).toHaveLength(5)
+
+    handleBackspace(restored, 2000)
+    for (const ch of 'x = 1') handleKey(restored, ch, 3000)
+    expect(isComplete(restored)).toBe(true)
+    expect(restored.incorrect).toBe(1)
+    expect(restored.events).toHaveLength(11)
+  })
+
+  it('refuses to restore a state taken on different text', () => {
+    const s = createTypingEngine('abc', 3)
+    handleKey(s, 'a')
+
+    expect(restoreTypingEngine(JSON.parse(JSON.stringify(s)), 'abd')).toBeNull()
+    expect(restoreTypingEngine({ text: 'abc' }, 'abc')).toBeNull()
+    expect(restoreTypingEngine(null, 'abc')).toBeNull()
+  })
 })
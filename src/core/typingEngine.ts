@@ -1,12 +1,19 @@
-import type { TextRange } from '../shared/types'
+import type { DedentStop, ErrorPolicy, KeystrokeEvent, TextRange } from '../shared/types'
 import { Mark } from '../shared/types'
+import { computeAutoClosePairs } from './bracketPairs'
 
 export type TypingEngineState = {
   text: string
+  errorPolicy: ErrorPolicy
   slackN: number
   autoSkipBlankLines: boolean
   allowWhitespaceAdvanceToNewline: boolean
   skipRanges: TextRange[]
+  autoCloseBrackets: boolean
+  /** Opener index -> partner closer index (-1 when unpaired); empty unless auto-close is on. */
+  autoClosePartners: number[]
+  /** Editor auto-indent: Backspaces expected before typing at an offset, sorted by offset. */
+  dedentStops: DedentStop[]
 
   cursor: number
   typedEnd: number
@@ -17,6 +24,13 @@ export type TypingEngineState = {
   marks: Mark[]
   countedCorrect: boolean[]
   typedPositions: number[]
+  freeErrorPositions: number[]
+  /** Auto-inserted closers still ahead of the cursor, innermost last. */
+  autoClosePending: number[]
+  /** Auto-inserted closers the cursor moved past, in order; restored when undone. */
+  autoCloseConsumed: number[]
+  /** Offset of each dedent Backspace pressed so far, in order. */
+  dedentsDone: number[]
 
   typeableChars: number
   typedKeystrokes: number
@@ -24,6 +38,10 @@ export type TypingEngineState = {
   collateral: number
   backspaces: number
   correctChars: number
+  /** Dedent Backspaces; editor indentation edits, so not in `typedKeystrokes`/`backspaces`. */
+  dedentKeystrokes: number
+
+  events?: KeystrokeEvent[]
 }
 
 function normalizeRanges(ranges: TextRange[] | undefined, max: number): TextRange[] {
@@ -54,6 +72,14 @@ function normalizeRanges(ranges: TextRange[] | undefined, max: number): TextRang
   return merged
 }
 
+function normalizeDedentStops(stops: DedentStop[] | undefined, max: number): DedentStop[] {
+  if (!stops || stops.length === 0) return []
+  return stops
+    .filter((d) => d.offset >= 0 && d.offset <= max && d.count > 0)
+    .map((d) => ({ offset: Math.floor(d.offset), count: Math.floor(d.count) }))
+    .sort((a, b) => a.offset - b.offset)
+}
+
 function sumRangeLengths(ranges: TextRange[]): number {
   let total = 0
   for (const r of ranges) total += Math.max(0, r.end - r.start)
@@ -75,13 +101,78 @@ function findContainingRange(ranges: TextRange[], pos: number): TextRange | null
 
 function skipForwardIfNeeded(state: TypingEngineState) {
   const ranges = state.skipRanges
-  if (ranges.length === 0) return
+  if (ranges.length > 0) {
+    while (state.cursor < state.text.length) {
+      const r = findContainingRange(ranges, state.cursor)
+      if (!r) break
+      state.cursor = r.end
+    }
+  }
+
+  skipTrailingAutoClosed(state)
+}
 
-  while (state.cursor < state.text.length) {
-    const r = findContainingRange(ranges, state.cursor)
-    if (!r) break
-    state.cursor = r.end
+function consumeAutoClosed(state: TypingEngineState) {
+  const pos = state.autoClosePending.pop()
+  if (typeof pos !== 'number') return
+  setMark(state, pos, Mark.CORRECT, false)
+  state.autoCloseConsumed.push(pos)
+  state.typeableChars -= 1
+}
+
+/**
+ * Once only auto-inserted closers (and skipped text) remain, the segment is done: an editor
+ * would already have them in place, so nothing is left to type.
+ */
+function skipTrailingAutoClosed(state: TypingEngineState) {
+  const pending = state.autoClosePending
+  if (pending.length === 0 || state.errorActive) return
+
+  let k = pending.length - 1
+  let pos = state.cursor
+  while (pos < state.text.length) {
+    const r = findContainingRange(state.skipRanges, pos)
+    if (r) {
+      pos = r.end
+      continue
+    }
+    if (k < 0 || pending[k] !== pos) return
+    k -= 1
+    pos += 1
   }
+
+  while (pending.length > k + 1) consumeAutoClosed(state)
+  state.cursor = state.text.length
+  state.typedEnd = state.cursor
+}
+
+/** Steps over auto-inserted closers at the cursor unless the key types over one of them. */
+function skipAutoClosedBeforeInput(state: TypingEngineState, input: string) {
+  const pending = state.autoClosePending
+  while (!state.errorActive && pending.length > 0 && pending[pending.length - 1] === state.cursor && state.text[state.cursor] !== input) {
+    consumeAutoClosed(state)
+    state.cursor += 1
+    state.typedEnd = state.cursor
+    skipForwardIfNeeded(state)
+  }
+}
+
+/** Puts back the auto-inserted closers at or after the cursor after an undo. */
+function restoreAutoClosed(state: TypingEngineState) {
+  const consumed = state.autoCloseConsumed
+  while (consumed.length > 0 && consumed[consumed.length - 1] >= state.cursor) {
+    const pos = consumed.pop() as number
+    // Closers that were stepped over are still marked; typed-over ones were just unmarked.
+    if (state.marks[pos] === Mark.CORRECT) {
+      setMark(state, pos, Mark.UNTOUCHED, false)
+      state.typeableChars += 1
+    }
+    state.autoClosePending.push(pos)
+  }
+
+  const partner = state.autoClosePartners[state.cursor] ?? -1
+  const pending = state.autoClosePending
+  if (partner >= 0 && pending.length > 0 && pending[pending.length - 1] === partner) pending.pop()
 }
 
 export function createTypingEngine(
@@ -90,6 +181,10 @@ export function createTypingEngine(
   autoSkipBlankLines = true,
   skipRanges: TextRange[] = [],
   allowWhitespaceAdvanceToNewline = false,
+  recordEvents = false,
+  errorPolicy: ErrorPolicy = 'slack',
+  autoCloseBrackets = false,
+  dedentStops: DedentStop[] = [],
 ): TypingEngineState {
   const slack = Number.isFinite(slackN) ? Math.max(0, Math.floor(slackN)) : 3
   const autoSkip = Boolean(autoSkipBlankLines)
@@ -98,10 +193,14 @@ export function createTypingEngine(
   const skippedChars = sumRangeLengths(ranges)
   const state: TypingEngineState = {
     text,
+    errorPolicy,
     slackN: slack,
     autoSkipBlankLines: autoSkip,
     allowWhitespaceAdvanceToNewline: allowWhitespaceAdvance,
     skipRanges: ranges,
+    autoCloseBrackets: Boolean(autoCloseBrackets),
+    autoClosePartners: autoCloseBrackets ? computeAutoClosePairs(text, ranges) : [],
+    dedentStops: normalizeDedentStops(dedentStops, text.length),
     cursor: 0,
     typedEnd: 0,
     errorActive: false,
@@ -111,21 +210,85 @@ export function createTypingEngine(
     marks: Array.from({ length: text.length }, () => Mark.UNTOUCHED),
     countedCorrect: Array.from({ length: text.length }, () => false),
     typedPositions: [],
+    freeErrorPositions: [],
+    autoClosePending: [],
+    autoCloseConsumed: [],
+    dedentsDone: [],
     typeableChars: Math.max(0, text.length - skippedChars),
     typedKeystrokes: 0,
     incorrect: 0,
     collateral: 0,
     backspaces: 0,
     correctChars: 0,
+    dedentKeystrokes: 0,
   }
+  if (recordEvents) state.events = []
   skipForwardIfNeeded(state)
   return state
 }
 
+/**
+ * Rebuilds an engine from a persisted state (a resumed session). Returns null unless it was
+ * taken on the same `text` and looks consistent; fields added since then get creation defaults.
+ */
+export function restoreTypingEngine(saved: unknown, text: string): TypingEngineState | null {
+  if (typeof saved !== 'object' || saved === null) return null
+  const data = saved as Partial<TypingEngineState>
+  if (data.text !== text) return null
+  if (!Array.isArray(data.marks) || data.marks.length !== text.length) return null
+  if (!Array.isArray(data.countedCorrect) || data.countedCorrect.length !== text.length) return null
+  if (!Array.isArray(data.typedPositions)) return null
+  if (typeof data.cursor !== 'number' || data.cursor < 0 || data.cursor > text.length) return null
+
+  const base = createTypingEngine(
+    text,
+    data.slackN,
+    data.autoSkipBlankLines,
+    data.skipRanges,
+    data.allowWhitespaceAdvanceToNewline,
+    Array.isArray(data.events),
+    data.errorPolicy,
+    data.autoCloseBrackets,
+    data.dedentStops,
+  )
+  return { ...base, ...data }
+}
+
+/** Dedent Backspaces still expected at the cursor before it accepts any other key. */
+export function pendingDedents(state: TypingEngineState): number {
+  const stops = state.dedentStops
+  if (stops.length === 0) return 0
+
+  let lo = 0
+  let hi = stops.length - 1
+  let required = 0
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    const offset = stops[mid].offset
+    if (offset < state.cursor) lo = mid + 1
+    else if (offset > state.cursor) hi = mid - 1
+    else {
+      required = stops[mid].count
+      break
+    }
+  }
+  if (required === 0) return 0
+
+  const done = state.dedentsDone
+  let k = done.length - 1
+  while (k >= 0 && done[k] === state.cursor) k -= 1
+  return Math.max(0, required - (done.length - 1 - k))
+}
+
 export function isComplete(state: TypingEngineState): boolean {
   return state.cursor >= state.text.length && !state.errorActive && !state.locked
 }
 
+/** Chars still marked `INCORRECT`: mistakes left in the text (free flow), not ones fixed since. */
+export function countUncorrectedErrors(state: TypingEngineState): number {
+  return state.marks.reduce((count, mark) => count + (mark === Mark.INCORRECT ? 1 : 0), 0)
+}
+
 function setMark(state: TypingEngineState, index: number, next: Mark, countCorrect: boolean) {
   if (index < 0 || index >= state.marks.length) return
   const prev = state.marks[index]
@@ -140,49 +303,123 @@ function setMark(state: TypingEngineState, index: number, next: Mark, countCorre
   state.countedCorrect[index] = nextWillCountCorrect
 }
 
-export function handleKey(state: TypingEngineState, ch: string): TypingEngineState {
+function recordEvent(state: TypingEngineState, kind: KeystrokeEvent['kind'], offset: number, typed: string, atMs: number) {
+  if (!state.events) return
+  state.events.push({
+    atMs,
+    kind,
+    offset,
+    expected: offset < state.text.length ? state.text[offset] : '',
+    typed,
+    mark: offset < state.marks.length ? state.marks[offset] : Mark.UNTOUCHED,
+  })
+}
+
+export function handleKey(state: TypingEngineState, ch: string, atMs = Date.now()): TypingEngineState {
   if (!ch) return state
 
+  const offset = applyKey(state, ch)
+  recordEvent(state, 'key', offset, ch[0], atMs)
+  return state
+}
+
+function acceptCorrect(state: TypingEngineState, input: string): TypingEngineState {
+  const isEnter = input === '\n'
+  setMark(state, state.cursor, Mark.CORRECT, true)
+  state.typedPositions.push(state.cursor)
+
+  const pending = state.autoClosePending
+  if (pending.length > 0 && pending[pending.length - 1] === state.cursor) {
+    // Typed over an auto-inserted closer, as editors allow.
+    state.autoCloseConsumed.push(pending.pop() as number)
+  }
+  const partner = state.autoClosePartners[state.cursor] ?? -1
+  if (partner >= 0) pending.push(partner)
+
+  state.cursor += 1
+  state.typedEnd = state.cursor
+
+  if (isEnter && state.autoSkipBlankLines) {
+    while (state.cursor < state.text.length && state.text[state.cursor] === '\n') {
+      setMark(state, state.cursor, Mark.CORRECT, false)
+      state.cursor += 1
+    }
+    state.typedEnd = state.cursor
+  }
+
+  skipForwardIfNeeded(state)
+  return state
+}
+
+/**
+ * Applies one key and returns the offset it landed on, which the event log records: past any
+ * auto-inserted closers it stepped over, since the key was meant for the char after them.
+ */
+function applyKey(state: TypingEngineState, ch: string): number {
   state.typedKeystrokes += 1
 
   if (state.locked) {
-    return state
+    return state.cursor
   }
 
   skipForwardIfNeeded(state)
 
   if (state.cursor >= state.text.length) {
-    return state
+    return state.cursor
+  }
+
+  if (!state.errorActive && pendingDedents(state) > 0) {
+    // The editor still holds the carried-over indentation; only Backspace removes it.
+    state.incorrect += 1
+    return state.cursor
+  }
+
+  skipAutoClosedBeforeInput(state, ch[0])
+  const offset = state.cursor
+  if (offset >= state.text.length) {
+    return offset
   }
+  judgeKey(state, ch)
+  return offset
+}
 
+/** Marks the key against the char at the cursor under the error policy. */
+function judgeKey(state: TypingEngineState, ch: string): TypingEngineState {
   let input = ch[0]
   const expected = state.text[state.cursor]
+  if (state.allowWhitespaceAdvanceToNewline && input === ' ' && expected === '\n') {
+    input = '\n'
+  }
+
+  if (state.errorPolicy === 'strict' && state.errorActive) {
+    // The cursor is held on the mistyped char; only the expected key releases it.
+    if (input !== expected) {
+      state.incorrect += 1
+      return state
+    }
+    state.errorActive = false
+    state.firstErrorIndex = -1
+    state.firstErrorTypedProgress = -1
+    return acceptCorrect(state, input)
+  }
 
   if (!state.errorActive) {
-    if (state.allowWhitespaceAdvanceToNewline && input === ' ' && expected === '\n') {
-      input = '\n'
+    if (input === expected) return acceptCorrect(state, input)
+
+    if (state.errorPolicy === 'strict') {
+      setMark(state, state.cursor, Mark.INCORRECT, false)
+      state.incorrect += 1
+      state.errorActive = true
+      state.firstErrorIndex = state.cursor
+      state.firstErrorTypedProgress = state.typedPositions.length
+      return state
     }
 
-    if (input === expected) {
-      const isEnter = input === '\n' && expected === '\n'
-      if (isEnter && state.autoSkipBlankLines) {
-        setMark(state, state.cursor, Mark.CORRECT, true)
-        state.typedPositions.push(state.cursor)
-        state.cursor += 1
-        state.typedEnd = state.cursor
-
-        while (state.cursor < state.text.length && state.text[state.cursor] === '\n') {
-          setMark(state, state.cursor, Mark.CORRECT, false)
-          state.cursor += 1
-        }
-        state.typedEnd = state.cursor
-
-        skipForwardIfNeeded(state)
-        return state
-      }
-
-      setMark(state, state.cursor, Mark.CORRECT, true)
+    if (state.errorPolicy === 'free') {
+      setMark(state, state.cursor, Mark.INCORRECT, false)
       state.typedPositions.push(state.cursor)
+      state.freeErrorPositions.push(state.cursor)
+      state.incorrect += 1
       state.cursor += 1
       state.typedEnd = state.cursor
       skipForwardIfNeeded(state)
@@ -220,16 +457,26 @@ export function handleKey(state: TypingEngineState, ch: string): TypingEngineSta
   return state
 }
 
-export function handleBackspace(state: TypingEngineState): TypingEngineState {
-  state.typedKeystrokes += 1
-  state.backspaces += 1
-  state.locked = false
+function undoLastTyped(state: TypingEngineState): void {
+  if (state.errorPolicy === 'strict' && state.errorActive) {
+    // Strict mode never inserted the rejected key, so backspace only takes the error back.
+    setMark(state, state.firstErrorIndex, Mark.UNTOUCHED, false)
+    state.errorActive = false
+    state.firstErrorIndex = -1
+    state.firstErrorTypedProgress = -1
+    return
+  }
 
   const last = state.typedPositions.pop()
   if (typeof last === 'number') {
     state.cursor = last
     state.typedEnd = state.cursor
     setMark(state, state.cursor, Mark.UNTOUCHED, false)
+    restoreAutoClosed(state)
+    const dedents = state.dedentsDone
+    while (dedents.length > 0 && dedents[dedents.length - 1] > state.cursor) dedents.pop()
+    const freeErrors = state.freeErrorPositions
+    if (freeErrors.length > 0 && freeErrors[freeErrors.length - 1] === last) freeErrors.pop()
   }
 
   if (state.errorActive && state.cursor <= state.firstErrorIndex) {
@@ -237,6 +484,83 @@ export function handleBackspace(state: TypingEngineState): TypingEngineState {
     state.firstErrorIndex = -1
     state.firstErrorTypedProgress = -1
   }
+}
+
+/** At an auto-indent dedent stop, a backspace (plain or word) takes one carried level away. */
+function takesDedent(state: TypingEngineState): boolean {
+  if (state.errorActive || pendingDedents(state) === 0) return false
+  state.dedentKeystrokes += 1
+  state.dedentsDone.push(state.cursor)
+  return true
+}
+
+export function handleBackspace(state: TypingEngineState, atMs = Date.now()): TypingEngineState {
+  if (takesDedent(state)) {
+    recordEvent(state, 'backspace', state.cursor, '', atMs)
+    return state
+  }
+
+  state.typedKeystrokes += 1
+  state.backspaces += 1
+  state.locked = false
+
+  undoLastTyped(state)
+
+  recordEvent(state, 'backspace', state.cursor, '', atMs)
+  return state
+}
+
+type WordCharClass = 'word' | 'space' | 'newline' | 'punct'
+
+function wordCharClass(ch: string): WordCharClass {
+  if (ch === '\n') return 'newline'
+  if (ch === ' ' || ch === '\t') return 'space'
+  if (/[\p{L}\p{N}_$]/u.test(ch)) return 'word'
+  return 'punct'
+}
+
+/**
+ * How many typed positions a word-delete removes, editor style: trailing spaces first, then
+ * one run of identifier chars or of punctuation. A newline is deleted on its own, and a run
+ * stops where typed positions are not adjacent (a skipped range sits in between).
+ */
+export function countWordDeletePositions(state: TypingEngineState): number {
+  const positions = state.typedPositions
+  let i = positions.length - 1
+  if (i < 0) return 0
+
+  const classAt = (k: number) => wordCharClass(state.text[positions[k]] ?? '')
+  const adjacent = (k: number) => positions[k] === positions[k + 1] - 1
+
+  if (classAt(i) === 'newline') return 1
+
+  while (i >= 0 && classAt(i) === 'space' && (i === positions.length - 1 || adjacent(i))) i -= 1
+  if (i >= 0 && (i === positions.length - 1 || adjacent(i))) {
+    const cls = classAt(i)
+    if (cls !== 'newline') {
+      i -= 1
+      while (i >= 0 && classAt(i) === cls && adjacent(i)) i -= 1
+    }
+  }
+
+  return positions.length - 1 - i
+}
+
+export function handleWordBackspace(state: TypingEngineState, atMs = Date.now()): TypingEngineState {
+  if (takesDedent(state)) {
+    recordEvent(state, 'wordBackspace', state.cursor, '', atMs)
+    return state
+  }
+
+  state.typedKeystrokes += 1
+  state.backspaces += 1
+  state.locked = false
+
+  // A held strict-mode error goes first, on its own, like a plain backspace.
+  const heldError = state.errorPolicy === 'strict' && state.errorActive
+  const count = heldError ? 1 : Math.max(1, countWordDeletePositions(state))
+  for (let k = 0; k < count; k += 1) undoLastTyped(state)
 
+  recordEvent(state, 'wordBackspace', state.cursor, '', atMs)
   return state
 }
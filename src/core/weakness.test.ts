@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeWeaknesses, isSymbolBigram } from './weakness'
+import { makeAttempt } from './testUtils'
+
+describe('weakness analysis', () => {
+  it('tallies per-char error rate and latency across attempts', () => {
+    const clean = makeAttempt('a=>b', [[0, 'a'], [100, '='], [300, '>'], [400, 'b']])
+    const fumbled = makeAttempt('a=>b', [[0, 'a'], [100, '-'], [200, null], [300, '='], [500, '>'], [20_500, 'b']], { idleThresholdMs: 10_000 })
+
+    const { chars } = analyzeWeaknesses([clean, fumbled])
+    const byKey = new Map(chars.map((s) => [s.key, s]))
+
+    expect(byKey.get('=')).toMatchObject({ attempts: 3, errors: 1, meanLatencyMs: 100 })
+    expect(byKey.get('=')?.errorRate).toBeCloseTo(1 / 3)
+    expect(byKey.get('a')).toMatchObject({ attempts: 2, errors: 0, meanLatencyMs: null })
+    // The 20 s gap before the last `b` is an idle pause, not latency.
+    expect(byKey.get('b')).toMatchObject({ attempts: 2, meanLatencyMs: 100 })
+  })
+
+  it('scores symbol bigrams on the second key after a clean first key', () => {
+    const clean = makeAttempt('a=>b', [[0, 'a'], [100, '='], [300, '>'], [400, 'b']])
+    const fumbled = makeAttempt('a=>b', [[0, 'a'], [100, '-'], [200, null], [300, '='], [500, '>'], [600, 'b']])
+
+    const { bigrams } = analyzeWeaknesses([clean, fumbled])
+    const byKey = new Map(bigrams.map((s) => [s.key, s]))
+
+    expect(byKey.get('=>')).toMatchObject({ attempts: 2, errors: 0, meanLatencyMs: 200 })
+    expect(byKey.get('a=')).toMatchObject({ attempts: 2, errors: 1 })
+  })
+
+  it('ignores collateral keys and attempts without events', () => {
+    const slipped = makeAttempt('abc', [[0, 'x'], [100, 'b'], [200, 'c']])
+    const { chars } = analyzeWeaknesses([slipped, { ...slipped, events: undefined }])
+    expect(chars.map((s) => s.key)).toEqual(['a'])
+    expect(chars[0]).toMatchObject({ attempts: 1, errors: 1 })
+  })
+
+  it('tracks only bigrams with a symbol and no whitespace', () => {
+    expect(isSymbolBigram('=>')).toBe(true)
+    expect(isSymbolBigram('x.')).toBe(true)
+    expect(isSymbolBigram('ab')).toBe(false)
+    expect(isSymbolBigram('; ')).toBe(false)
+  })
+})
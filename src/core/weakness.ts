@@ -0,0 +1,109 @@
+import { Mark } from '../shared/types'
+import type { Attempt, KeystrokeEvent } from '../shared/types'
+
+export type WeaknessStat = {
+  /** The expected char, or two chars for a bigram. */
+  key: string
+  attempts: number
+  errors: number
+  errorRate: number
+  /** Mean time since the previous keystroke; null without a usable interval. */
+  meanLatencyMs: number | null
+}
+
+export type WeaknessReport = {
+  chars: WeaknessStat[]
+  bigrams: WeaknessStat[]
+}
+
+type Tally = {
+  attempts: number
+  errors: number
+  latencySumMs: number
+  latencySamples: number
+}
+
+function isWordChar(ch: string): boolean {
+  return /[\p{L}\p{N}_]/u.test(ch)
+}
+
+/** Bigrams worth tracking for code: no whitespace, at least one symbol (`=>`, `::`, `->`, `{}`, `x.`). */
+export function isSymbolBigram(pair: string): boolean {
+  if (pair.length !== 2 || /\s/.test(pair)) return false
+  return !isWordChar(pair[0]) || !isWordChar(pair[1])
+}
+
+/**
+ * Whether a logged key counts as a hit, a miss, or says nothing about the expected char:
+ * collateral keys and keys swallowed by a lock or a pending dedent. A key that steps over
+ * auto-inserted closers is logged at the char after them, so it scores that char.
+ */
+function classifyKey(event: KeystrokeEvent): 'hit' | 'miss' | null {
+  if (!event.expected) return null
+  if (event.mark === Mark.INCORRECT) return 'miss'
+  if (event.mark !== Mark.CORRECT) return null
+  const typed = event.typed === ' ' && event.expected === '\n' ? '\n' : event.typed
+  return typed === event.expected ? 'hit' : null
+}
+
+function addSample(tallies: Map<string, Tally>, key: string, miss: boolean, latencyMs: number | null) {
+  let tally = tallies.get(key)
+  if (!tally) {
+    tally = { attempts: 0, errors: 0, latencySumMs: 0, latencySamples: 0 }
+    tallies.set(key, tally)
+  }
+  tally.attempts += 1
+  if (miss) tally.errors += 1
+  if (latencyMs !== null) {
+    tally.latencySumMs += latencyMs
+    tally.latencySamples += 1
+  }
+}
+
+function toStats(tallies: Map<string, Tally>): WeaknessStat[] {
+  return Array.from(tallies, ([key, t]) => ({
+    key,
+    attempts: t.attempts,
+    errors: t.errors,
+    errorRate: t.attempts > 0 ? t.errors / t.attempts : 0,
+    meanLatencyMs: t.latencySamples > 0 ? t.latencySumMs / t.latencySamples : null,
+  }))
+}
+
+/**
+ * Per-char and per-bigram error rate and latency over every attempt that recorded events.
+ * Latency is the gap since the previous keystroke; gaps beyond the attempt's idle threshold
+ * are not samples. A bigram is scored on its second key, when the first was typed right just before.
+ */
+export function analyzeWeaknesses(attempts: Attempt[]): WeaknessReport {
+  const chars = new Map<string, Tally>()
+  const bigrams = new Map<string, Tally>()
+
+  for (const attempt of attempts) {
+    const events = attempt.events
+    if (!events) continue
+    const maxGapMs = attempt.idleThresholdMs ?? 0
+
+    let prev: KeystrokeEvent | null = null
+    let prevHit = false
+    for (const event of events) {
+      const gap = prev ? event.atMs - prev.atMs : -1
+      const latencyMs = gap >= 0 && (maxGapMs <= 0 || gap <= maxGapMs) ? gap : null
+
+      const outcome = event.kind === 'key' ? classifyKey(event) : null
+      if (outcome) {
+        const miss = outcome === 'miss'
+        addSample(chars, event.expected, miss, latencyMs)
+        if (prev && prevHit && prev.offset === event.offset - 1) {
+          const pair = prev.expected + event.expected
+          if (isSymbolBigram(pair)) addSample(bigrams, pair, miss, latencyMs)
+        }
+      }
+
+      prevHit = outcome === 'hit'
+      prev = event
+    }
+  }
+
+  return { chars: toStats(chars), bigrams: toStats(bigrams) }
+}
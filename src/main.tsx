@@ -6,6 +6,7 @@ import '@mantine/notifications/styles.css'
 import { localStorageColorSchemeManager, MantineProvider } from '@mantine/core'
 import { Notifications } from '@mantine/notifications'
 import { ErrorBoundary } from './components/ErrorBoundary'
+import { FileDropTarget } from './components/FileDropTarget'
 import { GlobalErrorHandler } from './components/GlobalErrorHandler'
 import { SyncTailwindDarkClass } from './components/SyncTailwindDarkClass'
 
@@ -17,6 +18,7 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
     <Notifications position="top-right" />
     <GlobalErrorHandler />
     <SyncTailwindDarkClass />
+    <FileDropTarget />
     <ErrorBoundary>
       <App />
     </ErrorBoundary>
@@ -1,4 +1,4 @@
-import { Alert, Badge, Button, Card, Container, Divider, Group, Stack, Text, TextInput, Title, Collapse } from '@mantine/core'
+import { Alert, Badge, Button, Card, Container, Divider, Group, SegmentedControl, Stack, Table, Text, TextInput, Title, Collapse } from '@mantine/core'
 import { notifications } from '@mantine/notifications'
 import { useEffect, useMemo, useState } from 'react'
 import {
@@ -10,11 +10,15 @@ import {
   XAxis,
   YAxis,
 } from 'recharts'
+import { KeyboardHeatmap } from '../components/KeyboardHeatmap'
 import { ThemeToggle } from '../components/ThemeToggle'
 import type { Attempt } from '../shared/types'
+import { canReplay } from '../core/replay'
+import { analyzeWeaknesses, type WeaknessStat } from '../core/weakness'
 
 type AnalyticsProps = {
   onHome: () => void
+  onReplay: (attempt: Attempt) => void
 }
 
 type LoadState =
@@ -22,6 +26,34 @@ type LoadState =
   | { status: 'loaded'; attempts: Attempt[] }
   | { status: 'error'; message: string }
 
+type WeaknessView = 'chars' | 'bigrams'
+type WeaknessSortKey = 'key' | 'attempts' | 'errorRate' | 'meanLatencyMs'
+
+/** Rows with fewer samples are too noisy to rank. */
+const MIN_WEAKNESS_SAMPLES = 5
+
+const WEAKNESS_COLUMNS: { key: WeaknessSortKey; label: string }[] = [
+  { key: 'key', label: 'Keys' },
+  { key: 'attempts', label: 'Samples' },
+  { key: 'errorRate', label: 'Error rate' },
+  { key: 'meanLatencyMs', label: 'Mean latency' },
+]
+
+function formatWeaknessKey(key: string) {
+  return Array.from(key, (ch) => {
+    if (ch === ' ') return '␣'
+    if (ch === '\n') return '⏎'
+    if (ch === '\t') return '⇥'
+    return ch
+  }).join('')
+}
+
+function compareWeakness(a: WeaknessStat, b: WeaknessStat, sortKey: WeaknessSortKey): number {
+  if (sortKey === 'key') return a.key.localeCompare(b.key)
+  if (sortKey === 'meanLatencyMs') return (a.meanLatencyMs ?? -1) - (b.meanLatencyMs ?? -1)
+  return a[sortKey] - b[sortKey]
+}
+
 function formatDateTime(ms: number) {
   const d = new Date(ms)
   return d.toLocaleString()
@@ -39,10 +71,12 @@ function formatTooltipLabel(ms: unknown) {
   return Number.isFinite(value) ? formatDateTime(value) : String(ms)
 }
 
-export function Analytics({ onHome }: AnalyticsProps) {
+export function Analytics({ onHome, onReplay }: AnalyticsProps) {
   const [state, setState] = useState<LoadState>({ status: 'loading' })
   const [filter, setFilter] = useState('')
   const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [weaknessView, setWeaknessView] = useState<WeaknessView>('chars')
+  const [weaknessSort, setWeaknessSort] = useState<{ key: WeaknessSortKey; desc: boolean }>({ key: 'errorRate', desc: true })
 
   useEffect(() => {
     let cancelled = false
@@ -81,6 +115,18 @@ export function Analytics({ onHome }: AnalyticsProps) {
       }))
   }, [filteredAttempts])
 
+  const weaknesses = useMemo(() => analyzeWeaknesses(filteredAttempts), [filteredAttempts])
+
+  const weaknessRows = useMemo(() => {
+    const rows = weaknesses[weaknessView].filter((s) => s.attempts >= MIN_WEAKNESS_SAMPLES)
+    const sign = weaknessSort.desc ? -1 : 1
+    return rows.sort((a, b) => sign * compareWeakness(a, b, weaknessSort.key) || b.attempts - a.attempts)
+  }, [weaknesses, weaknessView, weaknessSort])
+
+  const toggleWeaknessSort = (key: WeaknessSortKey) => {
+    setWeaknessSort((prev) => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: key !== 'key' }))
+  }
+
   const copyText = async (label: string, value: string) => {
     try {
       await navigator.clipboard.writeText(value)
@@ -169,6 +215,63 @@ export function Analytics({ onHome }: AnalyticsProps) {
           </Card>
         </div>
 
+        <Card withBorder padding="md">
+          <Group justify="space-between" mb="xs" wrap="wrap">
+            <div>
+              <Text fw={600}>Weak spots</Text>
+              <Text size="xs" c="dimmed">
+                Per expected key across attempts with recorded keystrokes. Latency is the time since the previous key.
+              </Text>
+            </div>
+            <SegmentedControl
+              size="xs"
+              value={weaknessView}
+              onChange={(value) => setWeaknessView(value as WeaknessView)}
+              data={[
+                { value: 'chars', label: 'Characters' },
+                { value: 'bigrams', label: 'Symbol pairs' },
+              ]}
+            />
+          </Group>
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+              {weaknessRows.length === 0 ? (
+                <Text size="sm" c="dimmed">
+                  Not enough data yet (each row needs at least {MIN_WEAKNESS_SAMPLES} keystrokes).
+                </Text>
+              ) : (
+                <Table striped highlightOnHover stickyHeader>
+                  <Table.Thead>
+                    <Table.Tr>
+                      {WEAKNESS_COLUMNS.map((col) => (
+                        <Table.Th key={col.key} style={{ cursor: 'pointer', whiteSpace: 'nowrap' }} onClick={() => toggleWeaknessSort(col.key)}>
+                          {col.label}{weaknessSort.key === col.key ? (weaknessSort.desc ? ' ▼' : ' ▲') : ''}
+                        </Table.Th>
+                      ))}
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {weaknessRows.map((s) => (
+                      <Table.Tr key={s.key}>
+                        <Table.Td className="font-mono">{formatWeaknessKey(s.key)}</Table.Td>
+                        <Table.Td>{s.attempts}</Table.Td>
+                        <Table.Td>{(s.errorRate * 100).toFixed(1)}%</Table.Td>
+                        <Table.Td>{s.meanLatencyMs === null ? '–' : `${Math.round(s.meanLatencyMs)} ms`}</Table.Td>
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              )}
+            </div>
+
+            <div>
+              <Text size="sm" fw={600} mb={6}>Error heatmap (US layout)</Text>
+              <KeyboardHeatmap stats={weaknesses.chars} />
+            </div>
+          </div>
+        </Card>
+
         <Divider />
 
         <Stack gap="sm">
@@ -191,7 +294,9 @@ export function Analytics({ onHome }: AnalyticsProps) {
           <Stack gap="md">
             {filteredAttempts.map((a) => {
               const expanded = expandedId === a.id
-              const detailsJson = JSON.stringify(a, null, 2)
+              // The keystroke timeline can be thousands of entries; keep it out of the inline JSON view.
+              const { events, replay, ...summaryFields } = a
+              const detailsJson = JSON.stringify(summaryFields, null, 2)
               return (
                 <Card
                   key={a.id}
@@ -223,6 +328,11 @@ export function Analytics({ onHome }: AnalyticsProps) {
                       <Text size="sm"><strong>WPM</strong> {a.wpm.toFixed(1)}</Text>
                       <Text size="sm"><strong>Unprod%</strong> {a.unproductivePercent.toFixed(1)}</Text>
                       <Text size="sm"><strong>Duration</strong> {(a.durationMs / 1000).toFixed(1)}s</Text>
+                      {a.pauseCount ? (
+                        <Text size="sm" c="dimmed" title={`Wall clock ${((a.wallDurationMs ?? a.durationMs) / 1000).toFixed(1)}s`}>
+                          {a.pauseCount} {a.pauseCount === 1 ? 'pause' : 'pauses'}
+                        </Text>
+                      ) : null}
                       <Button
                         size="xs"
                         variant="light"
@@ -255,11 +365,22 @@ export function Analytics({ onHome }: AnalyticsProps) {
                           variant="default"
                           onClick={(e) => {
                             e.stopPropagation()
-                            void copyText('JSON', detailsJson)
+                            void copyText('JSON', JSON.stringify(a, null, 2))
                           }}
                         >
                           Copy JSON
                         </Button>
+                        <Button
+                          size="xs"
+                          variant="light"
+                          disabled={!canReplay(a)}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            onReplay(a)
+                          }}
+                        >
+                          Replay
+                        </Button>
                       </Group>
 
                       <Text size="sm" style={{ overflowWrap: 'anywhere' }}>
@@ -276,8 +397,9 @@ export function Analytics({ onHome }: AnalyticsProps) {
                         <Text size="sm"><strong>collateral</strong>: {a.collateral}</Text>
                         <Text size="sm"><strong>backspaces</strong>: {a.backspaces}</Text>
                       </Group>
+                      <Text size="sm"><strong>events</strong>: {events ? `${events.length} recorded` : 'not recorded'}{replay ? '' : ' (no replay data)'}</Text>
                       <Text size="sm">
-                        <strong>settings</strong>: linesPerSegment={a.linesPerSegment}, tabWidth={a.tabWidth}, slackN={a.slackN}
+                        <strong>settings</strong>: linesPerSegment={a.linesPerSegment}, tabWidth={a.tabWidth}, slackN={a.slackN}, errorPolicy={a.errorPolicy ?? 'slack'}
                       </Text>
 
                       <Text fw={600} size="sm" mt="xs">Raw JSON</Text>
@@ -0,0 +1,169 @@
+import { Alert, Badge, Button, Container, Group, Progress, Stack, Text, TextInput, Title, UnstyledButton } from '@mantine/core'
+import { useEffect, useMemo, useState } from 'react'
+import { ThemeToggle } from '../components/ThemeToggle'
+import { fileCoverage } from '../core/fileProgress'
+import type { FolderFile, FolderScan, OpenFileResult } from '../shared/types'
+
+type FolderBrowserProps = {
+  scan: FolderScan
+  onOpen: (file: OpenFileResult) => void
+  onHome: () => void
+}
+
+type TreeDir = {
+  name: string
+  path: string
+  dirs: TreeDir[]
+  files: FolderFile[]
+  lineCount: number
+}
+
+function buildTree(files: FolderFile[]): TreeDir {
+  const root: TreeDir = { name: '', path: '', dirs: [], files: [], lineCount: 0 }
+  for (const file of files) {
+    const parts = file.relativePath.split('/')
+    let dir = root
+    dir.lineCount += file.lineCount
+    for (let i = 0; i < parts.length - 1; i += 1) {
+      const dirPath = parts.slice(0, i + 1).join('/')
+      let next = dir.dirs.find((d) => d.path === dirPath)
+      if (!next) {
+        next = { name: parts[i], path: dirPath, dirs: [], files: [], lineCount: 0 }
+        dir.dirs.push(next)
+      }
+      next.lineCount += file.lineCount
+      dir = next
+    }
+    dir.files.push(file)
+  }
+  return root
+}
+
+function fileNameOf(relativePath: string) {
+  return relativePath.slice(relativePath.lastIndexOf('/') + 1)
+}
+
+export function FolderBrowser({ scan, onOpen, onHome }: FolderBrowserProps) {
+  const [filter, setFilter] = useState('')
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set())
+  const [coverageByPath, setCoverageByPath] = useState<Map<string, number>>(() => new Map())
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.listFileProgress()
+      .then((list) => {
+        if (!cancelled) setCoverageByPath(new Map(list.map((p) => [p.filePath, fileCoverage(p)])))
+      })
+      .catch((err: unknown) => console.error('Failed to load file progress:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const q = filter.trim().toLowerCase()
+  const tree = useMemo(() => {
+    const files = q ? scan.files.filter((f) => f.relativePath.toLowerCase().includes(q)) : scan.files
+    return buildTree(files)
+  }, [q, scan.files])
+
+  async function handleOpen(file: FolderFile) {
+    setError(null)
+    try {
+      onOpen(await window.api.openFolderFile(file.filePath))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  function toggle(dirPath: string) {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(dirPath)) next.delete(dirPath)
+      else next.add(dirPath)
+      return next
+    })
+  }
+
+  const renderDir = (dir: TreeDir, depth: number) => (
+    <>
+      {dir.dirs.map((child) => {
+        // While filtering, show every match without having to expand.
+        const open = Boolean(q) || expanded.has(child.path)
+        return (
+          <div key={child.path}>
+            <UnstyledButton className="w-full" onClick={() => toggle(child.path)} style={{ paddingLeft: depth * 16 }}>
+              <Group gap="xs" wrap="nowrap" py={2}>
+                <Text size="sm" c="dimmed" w={12}>{open ? '▾' : '▸'}</Text>
+                <Text size="sm" fw={500}>{child.name}/</Text>
+                <Text size="xs" c="dimmed">{child.lineCount} lines</Text>
+              </Group>
+            </UnstyledButton>
+            {open && renderDir(child, depth + 1)}
+          </div>
+        )
+      })}
+      {dir.files.map((file) => {
+        const coverage = coverageByPath.get(file.filePath)
+        return (
+          <UnstyledButton key={file.filePath} className="w-full" onClick={() => void handleOpen(file)} title={file.filePath} style={{ paddingLeft: depth * 16 + 20 }}>
+            <Group gap="sm" wrap="nowrap" py={2}>
+              <Text size="sm" className="truncate" style={{ flex: 1 }}>{fileNameOf(file.relativePath)}</Text>
+              <Text size="xs" c="dimmed" style={{ whiteSpace: 'nowrap' }}>{file.lineCount} lines</Text>
+              <div style={{ width: 80 }}>
+                {coverage !== undefined && <Progress value={coverage * 100} size="sm" radius="xl" title={`${Math.round(coverage * 100)}% typed`} />}
+              </div>
+            </Group>
+          </UnstyledButton>
+        )
+      })}
+    </>
+  )
+
+  return (
+    <Container size="md" py="lg">
+      <Stack gap="md">
+        <Group justify="space-between" align="flex-end" wrap="wrap">
+          <Group>
+            <Button variant="subtle" onClick={onHome}>Home</Button>
+            <Title order={2} m={0} title={scan.rootPath}>{scan.rootName}</Title>
+            <Badge variant="light">{scan.files.length} files</Badge>
+          </Group>
+          <Group align="flex-end" wrap="nowrap">
+            <TextInput
+              label="Filter (path)"
+              value={filter}
+              onChange={(e) => setFilter(e.currentTarget.value)}
+              placeholder="e.g. src/core"
+              w={260}
+            />
+            <ThemeToggle size="xs" variant="default" />
+          </Group>
+        </Group>
+
+        {scan.truncated && (
+          <Alert color="yellow" title="Large folder">
+            Only the first {scan.files.length} files are listed. Open a subfolder to see the rest.
+          </Alert>
+        )}
+        {error && (
+          <Alert color="red" title="Open failed">
+            {error}
+          </Alert>
+        )}
+
+        <Text size="xs" c="dimmed">
+          Text/code files only; .gitignore rules are honoured{scan.skippedBinary > 0 ? ` and ${scan.skippedBinary} binary files were skipped` : ''}.
+        </Text>
+
+        {scan.files.length === 0 ? (
+          <Text size="sm" c="dimmed">No practisable files in this folder.</Text>
+        ) : (
+          <div className="tt-panel rounded-md border px-3 py-2">
+            {renderDir(tree, 0)}
+          </div>
+        )}
+      </Stack>
+    </Container>
+  )
+}
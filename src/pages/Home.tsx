@@ -1,15 +1,115 @@
-import { Alert, Button, Container, Group, Stack, Text, Title } from '@mantine/core'
-import { useState } from 'react'
+import { ActionIcon, Alert, Button, Card, Container, Group, Progress, Stack, Text, Title, UnstyledButton } from '@mantine/core'
+import { useEffect, useState } from 'react'
+import { ClipboardSnippetDialog } from '../components/ClipboardSnippetDialog'
+import { GitDiffPicker } from '../components/GitDiffPicker'
 import { ThemeToggle } from '../components/ThemeToggle'
-import type { OpenFileResult } from '../shared/types'
+import { fileCoverage } from '../core/fileProgress'
+import type { FileProgress, FolderScan, GitRepo, OpenFileResult, RecentFile, ResumableSession } from '../shared/types'
 
 type HomeProps = {
   onOpen: (file: OpenFileResult) => void
+  onOpenFolder: (scan: FolderScan) => void
   onAnalytics: () => void
+  onDrill: () => void
+  onContinue: (file: OpenFileResult, progress: FileProgress) => void
+  onOpenRecent: (file: OpenFileResult, segmentIndex?: number) => void
+  resumable: ResumableSession | null
+  onResume: (resumable: ResumableSession) => void
+  onDiscardResume: () => void
 }
 
-export function Home({ onOpen, onAnalytics }: HomeProps) {
+const CONTINUE_LIST_SIZE = 5
+
+function formatTimeSpent(ms: number) {
+  const minutes = Math.round(ms / 60_000)
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
+
+export function Home({ onOpen, onOpenFolder, onAnalytics, onDrill, onContinue, onOpenRecent, resumable, onResume, onDiscardResume }: HomeProps) {
   const [error, setError] = useState<string | null>(null)
+  const [progressList, setProgressList] = useState<FileProgress[]>([])
+  const [recentFiles, setRecentFiles] = useState<RecentFile[]>([])
+  const [gitRepo, setGitRepo] = useState<GitRepo | null>(null)
+  const [clipboardOpen, setClipboardOpen] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    window.api.listFileProgress()
+      .then((list) => {
+        if (!cancelled) setProgressList(list.slice(0, CONTINUE_LIST_SIZE))
+      })
+      .catch((err: unknown) => console.error('Failed to load file progress:', err))
+    window.api.listRecentFiles()
+      .then((list) => {
+        if (!cancelled) setRecentFiles(list)
+      })
+      .catch((err: unknown) => console.error('Failed to load recent files:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  async function handleOpenFolder() {
+    setError(null)
+    try {
+      const scan = await window.api.openFolder()
+      if (scan) onOpenFolder(scan)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function handleOpenGitRepo() {
+    setError(null)
+    try {
+      setGitRepo(await window.api.openGitRepo())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function handlePickDiff(commit: string | null) {
+    if (!gitRepo) return
+    setError(null)
+    try {
+      const file = await window.api.openGitDiff(gitRepo.repoPath, commit)
+      setGitRepo(null)
+      onOpen(file)
+    } catch (err) {
+      setGitRepo(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function handleOpenRecent(recent: RecentFile) {
+    setError(null)
+    try {
+      onOpenRecent(await window.api.openRecentFile(recent.filePath), recent.lastSegmentIndex)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  async function handleRemoveRecent(recent: RecentFile) {
+    setRecentFiles((prev) => prev.filter((f) => f.filePath !== recent.filePath))
+    try {
+      await window.api.removeRecentFile(recent.filePath)
+    } catch (err) {
+      console.error('Failed to remove recent file:', err)
+    }
+  }
+
+  async function handleContinue(progress: FileProgress) {
+    setError(null)
+    try {
+      const file = await window.api.openProgressFile(progress.filePath)
+      if (file) onContinue(file, progress)
+      else setError(`Could not open ${progress.filePath}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
 
   async function handleOpen() {
     setError(null)
@@ -27,22 +127,102 @@ export function Home({ onOpen, onAnalytics }: HomeProps) {
         <div>
           <Title order={2}>CodeTyping Trainer</Title>
           <Text c="dimmed" mt={4}>
-            Open a local text/code file to start practicing. The app is fully offline (no telemetry, no network calls).
+            Open a local text/code file (or drop one onto the window) to start practicing. The app is fully offline (no telemetry, no network calls).
           </Text>
         </div>
 
         <Group>
           <Button onClick={handleOpen}>Open File (Ctrl+O)</Button>
+          <Button variant="light" onClick={handleOpenFolder}>Open Folder</Button>
+          <Button variant="light" onClick={handleOpenGitRepo}>Git diff</Button>
+          <Button variant="light" onClick={() => setClipboardOpen(true)}>Practice clipboard</Button>
           <Button variant="light" onClick={onAnalytics}>Analytics</Button>
+          <Button variant="light" color="grape" onClick={onDrill}>Weakness drill</Button>
           <ThemeToggle variant="default" />
         </Group>
 
+        {resumable && (
+          <Card withBorder padding="md">
+            <Stack gap="xs">
+              <Text fw={600}>Resume where you left off</Text>
+              <Text size="sm" c="dimmed">
+                {resumable.session.fileName} · segment {resumable.session.segmentIndex + 1}
+                {resumable.session.progress ? ' (in progress)' : ''} · {new Date(resumable.session.savedAtMs).toLocaleString()}
+              </Text>
+              <Group>
+                <Button onClick={() => onResume(resumable)}>Resume</Button>
+                <Button variant="subtle" color="gray" onClick={onDiscardResume}>Discard</Button>
+              </Group>
+            </Stack>
+          </Card>
+        )}
+
+        {progressList.length > 0 && (
+          <Card withBorder padding="md">
+            <Stack gap="sm">
+              <Text fw={600}>Continue</Text>
+              {progressList.map((p) => {
+                const coverage = fileCoverage(p)
+                return (
+                  <Group key={p.filePath} justify="space-between" wrap="nowrap" gap="md">
+                    <div className="min-w-0 flex-1">
+                      <Group justify="space-between" wrap="nowrap" gap="xs">
+                        <Text size="sm" fw={500} className="truncate" title={p.filePath}>{p.fileName}</Text>
+                        <Text size="xs" c="dimmed" style={{ whiteSpace: 'nowrap' }}>
+                          {Math.round(coverage * 100)}% of lines · {formatTimeSpent(p.totalDurationMs)}
+                        </Text>
+                      </Group>
+                      <Progress value={coverage * 100} size="sm" radius="xl" mt={4} />
+                    </div>
+                    <Button size="xs" variant="light" onClick={() => void handleContinue(p)}>
+                      {coverage >= 1 ? 'Open' : 'Continue'}
+                    </Button>
+                  </Group>
+                )
+              })}
+            </Stack>
+          </Card>
+        )}
+
+        {recentFiles.length > 0 && (
+          <Card withBorder padding="md">
+            <Stack gap={6}>
+              <Text fw={600}>Recent files</Text>
+              {recentFiles.map((f) => (
+                <Group key={f.filePath} justify="space-between" wrap="nowrap" gap="sm">
+                  <UnstyledButton className="min-w-0 flex-1" onClick={() => void handleOpenRecent(f)} title={f.filePath}>
+                    <Text size="sm" fw={500} className="truncate">{f.fileName}</Text>
+                    <Text size="xs" c="dimmed" className="truncate">
+                      {f.filePath}
+                      {f.lastSegmentIndex !== undefined ? ` · segment ${f.lastSegmentIndex + 1}` : ''}
+                      {' · '}{new Date(f.lastOpenedAtMs).toLocaleString()}
+                    </Text>
+                  </UnstyledButton>
+                  <ActionIcon variant="subtle" color="gray" aria-label={`Remove ${f.fileName} from recent files`} onClick={() => void handleRemoveRecent(f)}>
+                    ×
+                  </ActionIcon>
+                </Group>
+              ))}
+            </Stack>
+          </Card>
+        )}
+
         {error && (
           <Alert color="red" title="Open failed">
             {error}
           </Alert>
         )}
       </Stack>
+
+      <GitDiffPicker repo={gitRepo} onClose={() => setGitRepo(null)} onPick={(commit) => void handlePickDiff(commit)} />
+      <ClipboardSnippetDialog
+        opened={clipboardOpen}
+        onClose={() => setClipboardOpen(false)}
+        onStart={(file) => {
+          setClipboardOpen(false)
+          onOpen(file)
+        }}
+      />
     </Container>
   )
 }
@@ -0,0 +1,279 @@
+import type { BeforeMount, OnMount } from '@monaco-editor/react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type * as Monaco from 'monaco-editor'
+import { Alert, Badge, Button, Group, SegmentedControl, Slider, Text, useComputedColorScheme } from '@mantine/core'
+import { ThemeToggle } from '../components/ThemeToggle'
+import { MonacoReadonly } from '../components/MonacoReadonly'
+import { READONLY_EDITOR_OPTIONS, TT_THEME_DARK, TT_THEME_LIGHT, buildProgressDecorations, ensureTypingThemes } from '../components/monacoTyping'
+import type { Attempt } from '../shared/types'
+import type { TypingEngineState } from '../core/typingEngine'
+import { activeEventTimes, applyReplayEvents, canReplay, countEventsUntil, createReplayEngine } from '../core/replay'
+import { computeWpm } from '../core/metrics'
+import './Typing.css'
+
+type ReplayProps = {
+  attempt: Attempt
+  onBack: () => void
+}
+
+type ReplaySnapshot = {
+  eventIndex: number
+  incorrect: number
+  collateral: number
+  backspaces: number
+  correctChars: number
+}
+
+const SPEEDS = ['0.5', '1', '2', '4']
+
+function formatElapsed(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+}
+
+function snapshotFromEngine(engine: TypingEngineState, eventIndex: number): ReplaySnapshot {
+  return {
+    eventIndex,
+    incorrect: engine.incorrect,
+    collateral: engine.collateral,
+    backspaces: engine.backspaces,
+    correctChars: engine.correctChars,
+  }
+}
+
+export function Replay({ attempt, onBack }: ReplayProps) {
+  const events = useMemo(() => attempt.events ?? [], [attempt.events])
+  // The timeline is active time (`durationMs`), so event times skip idle pauses too.
+  const eventTimes = useMemo(() => activeEventTimes(attempt), [attempt])
+  const replayable = canReplay(attempt)
+  const text = attempt.replay?.text ?? ''
+  const durationMs = Math.max(0, attempt.durationMs)
+
+  const computedColorScheme = useComputedColorScheme('light', { getInitialValueInEffect: false })
+  const monacoTheme = computedColorScheme === 'dark' ? TT_THEME_DARK : TT_THEME_LIGHT
+
+  const editorRef = useRef<Monaco.editor.IStandaloneCodeEditor | null>(null)
+  const monacoRef = useRef<typeof import('monaco-editor') | null>(null)
+  const decorationsRef = useRef<Monaco.editor.IEditorDecorationsCollection | null>(null)
+  const staticDecorationsRef = useRef<Monaco.editor.IEditorDecorationsCollection | null>(null)
+  const lastRevealCursorRef = useRef(-1)
+
+  const engineRef = useRef<TypingEngineState>(createReplayEngine(attempt))
+  const appliedRef = useRef(0)
+  const playRafRef = useRef<number | null>(null)
+  const positionRef = useRef(0)
+
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState('1')
+  const [positionMs, setPositionMs] = useState(0)
+  const [snapshot, setSnapshot] = useState<ReplaySnapshot>(() => snapshotFromEngine(engineRef.current, 0))
+
+  const applyDecorations = useCallback(() => {
+    const editor = editorRef.current
+    const monaco = monacoRef.current
+    const decorations = decorationsRef.current
+    if (!editor || !monaco || !decorations) return
+
+    const model = editor.getModel()
+    if (!model) return
+
+    const state = engineRef.current
+    const { decorations: decos, visualCursorOffset } = buildProgressDecorations(state, model, monaco)
+    decorations.set(decos)
+
+    if (lastRevealCursorRef.current !== visualCursorOffset) {
+      lastRevealCursorRef.current = visualCursorOffset
+      const revealPos = model.getPositionAt(Math.max(0, Math.min(state.text.length, visualCursorOffset)))
+      const visible = editor.getVisibleRanges().some((r) => r.containsPosition(revealPos))
+      if (!visible) editor.revealPositionInCenterIfOutsideViewport(revealPos)
+    }
+  }, [])
+
+  const applyStaticDecorations = useCallback(() => {
+    const editor = editorRef.current
+    const monaco = monacoRef.current
+    const decorations = staticDecorationsRef.current
+    if (!editor || !monaco || !decorations) return
+
+    const model = editor.getModel()
+    if (!model) return
+
+    const decos: Monaco.editor.IModelDeltaDecoration[] = engineRef.current.skipRanges.map((r) => {
+      const startPos = model.getPositionAt(r.start)
+      const endPos = model.getPositionAt(r.end)
+      return {
+        range: new monaco.Range(startPos.lineNumber, startPos.column, endPos.lineNumber, endPos.column),
+        options: { inlineClassName: 'tt-skip-space' },
+      }
+    })
+    decorations.set(decos)
+  }, [])
+
+  // Re-running forward is incremental; scrubbing backwards rebuilds the engine from the first event.
+  const syncEngineTo = useCallback((ms: number) => {
+    const target = countEventsUntil(eventTimes, ms)
+    if (target < appliedRef.current) {
+      engineRef.current = createReplayEngine(attempt)
+      appliedRef.current = 0
+    }
+    if (target > appliedRef.current) {
+      applyReplayEvents(engineRef.current, events, appliedRef.current, target)
+      appliedRef.current = target
+    }
+    setSnapshot(snapshotFromEngine(engineRef.current, target))
+    applyDecorations()
+  }, [applyDecorations, attempt, eventTimes, events])
+
+  useEffect(() => {
+    positionRef.current = positionMs
+    syncEngineTo(positionMs)
+  }, [positionMs, syncEngineTo])
+
+  useEffect(() => {
+    if (!playing) return
+
+    let lastFrameAt = performance.now()
+    const rate = Number(speed) || 1
+    const tick = (now: number) => {
+      const delta = (now - lastFrameAt) * rate
+      lastFrameAt = now
+      const next = Math.min(durationMs, positionRef.current + delta)
+      positionRef.current = next
+      setPositionMs(next)
+      if (next >= durationMs) {
+        playRafRef.current = null
+        setPlaying(false)
+        return
+      }
+      playRafRef.current = requestAnimationFrame(tick)
+    }
+    playRafRef.current = requestAnimationFrame(tick)
+
+    return () => {
+      if (playRafRef.current !== null) cancelAnimationFrame(playRafRef.current)
+      playRafRef.current = null
+    }
+  }, [durationMs, playing, speed])
+
+  const onMount: OnMount = useCallback((editor, monaco) => {
+    editorRef.current = editor
+    monacoRef.current = monaco
+    decorationsRef.current = editor.createDecorationsCollection()
+    staticDecorationsRef.current = editor.createDecorationsCollection()
+    lastRevealCursorRef.current = -1
+    applyStaticDecorations()
+    applyDecorations()
+  }, [applyDecorations, applyStaticDecorations])
+
+  const beforeMount: BeforeMount = useCallback((monaco) => {
+    ensureTypingThemes(monaco as unknown as typeof import('monaco-editor'))
+  }, [])
+
+  const togglePlaying = () => {
+    if (playing) {
+      setPlaying(false)
+      return
+    }
+    if (positionMs >= durationMs) setPositionMs(0)
+    setPlaying(true)
+  }
+
+  const wpm = computeWpm(snapshot.correctChars, positionMs)
+
+  return (
+    <div className="tt-page h-full flex flex-col">
+      <header className="tt-panel shrink-0 border-b">
+        <div className="flex items-center gap-3 px-3 py-2">
+          <Button size="xs" variant="subtle" onClick={onBack}>Back</Button>
+
+          <div className="min-w-0 flex-1">
+            <Text fw={600} className="truncate" title={attempt.filePath}>
+              Replay: {attempt.fileName}
+            </Text>
+            <Text size="xs" c="dimmed" className="truncate">
+              {new Date(attempt.endAtMs).toLocaleString()}
+            </Text>
+          </div>
+
+          <Group gap={6} wrap="nowrap">
+            <Badge variant="light">Seg {attempt.segmentIndex + 1}</Badge>
+            <Badge variant="light">Lines {attempt.segmentStartLine}-{attempt.segmentEndLine}</Badge>
+            <ThemeToggle size="xs" variant="default" />
+          </Group>
+        </div>
+
+        {replayable && (
+          <div className="flex items-center gap-3 px-3 pb-3">
+            <Button size="xs" onClick={togglePlaying}>{playing ? 'Pause' : 'Play'}</Button>
+            <SegmentedControl
+              size="xs"
+              value={speed}
+              onChange={setSpeed}
+              data={SPEEDS.map((value) => ({ value, label: `${value}x` }))}
+            />
+            <Slider
+              className="flex-1"
+              min={0}
+              max={Math.max(1, durationMs)}
+              step={10}
+              value={positionMs}
+              label={formatElapsed}
+              onChange={(value) => {
+                setPlaying(false)
+                setPositionMs(value)
+              }}
+            />
+            <Text size="xs" className="font-mono">
+              {formatElapsed(positionMs)} / {formatElapsed(durationMs)}
+            </Text>
+          </div>
+        )}
+      </header>
+
+      {!replayable && (
+        <div className="px-3 py-3">
+          <Alert color="gray" title="Nothing to replay">
+            This attempt was saved without a keystroke log, so it cannot be replayed.
+          </Alert>
+        </div>
+      )}
+
+      {replayable && (
+        <>
+          <div className="tt-panel shrink-0 border-b px-3 py-3">
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 md:grid-cols-5">
+              <div className="tt-panel rounded-md border px-3 py-2">
+                <div className="tt-muted text-xs">WPM</div>
+                <div className="font-mono text-lg">{wpm.toFixed(1)}</div>
+              </div>
+              <div className="tt-panel rounded-md border px-3 py-2">
+                <div className="tt-muted text-xs">keystrokes</div>
+                <div className="font-mono text-lg">{snapshot.eventIndex}/{events.length}</div>
+              </div>
+              <div className="tt-panel rounded-md border px-3 py-2">
+                <div className="tt-muted text-xs">incorrect</div>
+                <div className="font-mono text-lg">{snapshot.incorrect}</div>
+              </div>
+              <div className="tt-panel rounded-md border px-3 py-2">
+                <div className="tt-muted text-xs">collateral</div>
+                <div className="font-mono text-lg">{snapshot.collateral}</div>
+              </div>
+              <div className="tt-panel rounded-md border px-3 py-2">
+                <div className="tt-muted text-xs">backspaces</div>
+                <div className="font-mono text-lg">{snapshot.backspaces}</div>
+              </div>
+            </div>
+          </div>
+
+          <div className="tt-monacoContainer tt-monacoContainer--center">
+            <div className="tt-monacoFrame">
+              <MonacoReadonly value={text} onMount={onMount} beforeMount={beforeMount} options={READONLY_EDITOR_OPTIONS} theme={monacoTheme} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
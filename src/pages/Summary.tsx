@@ -2,6 +2,7 @@ import { Alert, Badge, Button, Container, Group, SimpleGrid, Stack, Text, Title
 import { useEffect, useState } from 'react'
 import { ThemeToggle } from '../components/ThemeToggle'
 import type { Attempt } from '../shared/types'
+import { canReplay } from '../core/replay'
 
 type SummaryProps = {
   attempt: Attempt
@@ -10,8 +11,10 @@ type SummaryProps = {
   onPrev: () => void
   onNext: () => void
   onRetry: () => void
+  onReplay: () => void
   onHome: () => void
   onAnalytics: () => void
+  onDrill: () => void
 }
 
 function formatDuration(ms: number) {
@@ -21,7 +24,7 @@ function formatDuration(ms: number) {
   return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
 }
 
-export function Summary({ attempt, hasPrev, hasNext, onPrev, onNext, onRetry, onHome, onAnalytics }: SummaryProps) {
+export function Summary({ attempt, hasPrev, hasNext, onPrev, onNext, onRetry, onReplay, onHome, onAnalytics, onDrill }: SummaryProps) {
   const [saveState, setSaveState] = useState<'saving' | 'saved' | 'error'>('saving')
   const [saveError, setSaveError] = useState<string | null>(null)
 
@@ -90,7 +93,7 @@ export function Summary({ attempt, hasPrev, hasNext, onPrev, onNext, onRetry, on
             <div className="font-mono text-lg">{attempt.unproductivePercent.toFixed(1)}</div>
           </div>
           <div className="tt-panel rounded-md border px-3 py-2">
-            <div className="tt-muted text-xs">Duration</div>
+            <div className="tt-muted text-xs">Duration (active)</div>
             <div className="font-mono text-lg">{formatDuration(attempt.durationMs)}</div>
           </div>
           <div className="tt-panel rounded-md border px-3 py-2">
@@ -101,8 +104,10 @@ export function Summary({ attempt, hasPrev, hasNext, onPrev, onNext, onRetry, on
 
         <Group wrap="wrap">
           <Button onClick={onRetry}>Retry</Button>
+          <Button variant="light" disabled={!canReplay(attempt)} onClick={onReplay}>Replay</Button>
           <Button variant="light" disabled={!hasPrev} onClick={onPrev}>Prev Segment</Button>
           <Button variant="light" disabled={!hasNext} onClick={onNext}>Next Segment</Button>
+          <Button variant="light" color="grape" onClick={onDrill}>Weakness drill</Button>
         </Group>
 
         <Group gap="xl" wrap="wrap">
@@ -110,6 +115,31 @@ export function Summary({ attempt, hasPrev, hasNext, onPrev, onNext, onRetry, on
           <Text size="sm"><strong>incorrect</strong>: {attempt.incorrect}</Text>
           <Text size="sm"><strong>collateral</strong>: {attempt.collateral}</Text>
           <Text size="sm"><strong>backspaces</strong>: {attempt.backspaces}</Text>
+          {attempt.accuracyPercent !== undefined && (
+            <Text size="sm"><strong>accuracy</strong>: {attempt.accuracyPercent.toFixed(1)}%</Text>
+          )}
+          {attempt.rawWpm !== undefined && (
+            <Text size="sm"><strong>raw WPM</strong>: {attempt.rawWpm.toFixed(1)}</Text>
+          )}
+          {attempt.netWpm !== undefined && (
+            <Text size="sm"><strong>net WPM</strong>: {attempt.netWpm.toFixed(1)}</Text>
+          )}
+          {attempt.cpm !== undefined && (
+            <Text size="sm"><strong>CPM</strong>: {attempt.cpm.toFixed(0)}</Text>
+          )}
+          {attempt.kspc !== undefined && (
+            <Text size="sm"><strong>KSPC</strong>: {attempt.kspc.toFixed(2)}</Text>
+          )}
+          {attempt.consistencyPercent !== undefined && (
+            <Text size="sm"><strong>consistency</strong>: {attempt.consistencyPercent.toFixed(1)}%</Text>
+          )}
+          <Text size="sm"><strong>errorPolicy</strong>: {attempt.errorPolicy ?? 'slack'}</Text>
+          {attempt.wallDurationMs !== undefined && (
+            <Text size="sm"><strong>wall clock</strong>: {formatDuration(attempt.wallDurationMs)}</Text>
+          )}
+          {attempt.pauseCount !== undefined && (
+            <Text size="sm"><strong>pauses</strong>: {attempt.pauseCount}</Text>
+          )}
         </Group>
       </Stack>
     </Container>
@@ -1,16 +1,34 @@
-import Editor, { type BeforeMount, type OnMount } from '@monaco-editor/react'
-import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { BeforeMount, OnMount } from '@monaco-editor/react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type * as Monaco from 'monaco-editor'
-import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker'
 import { Badge, Button, Drawer, Group, NumberInput, Progress, Select, Stack, Switch, Text, useComputedColorScheme } from '@mantine/core'
 import { notifications } from '@mantine/notifications'
 import { ThemeToggle } from '../components/ThemeToggle'
-import type { Attempt, OpenFileResult, TextRange, TextSegment, TypingSettings } from '../shared/types'
+import { MonacoReadonly } from '../components/MonacoReadonly'
+import { EncodingPicker } from '../components/EncodingPicker'
+import { SegmentPicker } from '../components/SegmentPicker'
+import { READONLY_EDITOR_OPTIONS, TT_THEME_DARK, TT_THEME_LIGHT, buildProgressDecorations, ensureTypingThemes } from '../components/monacoTyping'
+import type { Attempt, FileProgress, OpenFileResult, SessionProgress, TextRange, TextSegment, TypingSettings } from '../shared/types'
 import { normalizeTypingSettings } from '../shared/typingSettings'
 import type { TypingEngineState } from '../core/typingEngine'
-import { createTypingEngine, handleBackspace, handleKey, isComplete } from '../core/typingEngine'
-import { computeUnproductivePercent, computeWpm } from '../core/metrics'
-import { computeLeadingIndentationRanges, computePreCommentPaddingRanges, computeSkippableLineBreakRanges, computeTrailingWhitespaceRanges, mergeRanges } from '../core/skipRanges'
+import { countUncorrectedErrors, createTypingEngine, handleBackspace, handleKey, handleWordBackspace, isComplete, restoreTypingEngine } from '../core/typingEngine'
+import {
+  computeAccuracyPercent,
+  computeConsistencyPercent,
+  computeCpm,
+  computeInterKeyIntervals,
+  computeKspc,
+  computeNetWpm,
+  computeRawWpm,
+  computeUnproductivePercent,
+  computeWpm,
+} from '../core/metrics'
+import { fileCoverage } from '../core/fileProgress'
+import type { IdleClock } from '../core/idleClock'
+import { activeElapsedMs, createIdleClock, isIdle, noteActivity, resumeIdleClock, wallElapsedMs } from '../core/idleClock'
+import type { GhostTimeline } from '../core/ghost'
+import { buildGhostTimeline, ghostCursorAt, ghostReachTimeMs, pickBestAttempt } from '../core/ghost'
+import { computeAutoIndentPlan, computeLeadingIndentationRanges, computePreCommentPaddingRanges, computeSkippableLineBreakRanges, computeTrailingWhitespaceRanges, mergeRanges, spacesToIndentStop } from '../core/skipRanges'
 import './Typing.css'
 
 type TypingProps = {
@@ -18,55 +36,22 @@ type TypingProps = {
   segments: TextSegment[]
   settings: TypingSettings
   segmentIndex: number
+  /** Saved progress on `segmentIndex` to continue from, used once on mount. */
+  resume?: SessionProgress
+  /** The file changed on disk; offers to reload it without touching the current attempt. */
+  fileChanged: boolean
+  onReloadFile: () => void
+  onDismissFileChange: () => void
+  /** The same file decoded again with another encoding. */
+  onReopen: (file: OpenFileResult) => void
+  /** Called with the in-progress state (or null before the first key) so it can be persisted. */
+  onProgress: (progress: SessionProgress | null) => void
   onBack: () => void
   onUpdateSettings: (settings: TypingSettings) => void
   onChangeSegment: (segmentIndex: number) => void
   onComplete: (attempt: Attempt) => void
 }
 
-type MonacoEnvironment = {
-  getWorker: (moduleId: string, label: string) => Worker
-}
-
-const monacoGlobal = globalThis as unknown as { MonacoEnvironment?: MonacoEnvironment }
-monacoGlobal.MonacoEnvironment ??= { getWorker: () => new EditorWorker() }
-
-const TT_THEME_LIGHT = 'tt-vs'
-const TT_THEME_DARK = 'tt-vs-dark'
-
-let typingThemesDefined = false
-function ensureTypingThemes(monaco: typeof import('monaco-editor')) {
-  if (typingThemesDefined) return
-  typingThemesDefined = true
-
-  const lightForeground = '#000000'
-  const darkForeground = '#D4D4D4'
-
-  const bracketColors = (fg: string) => ({
-    'editorBracketHighlight.foreground1': fg,
-    'editorBracketHighlight.foreground2': fg,
-    'editorBracketHighlight.foreground3': fg,
-    'editorBracketHighlight.foreground4': fg,
-    'editorBracketHighlight.foreground5': fg,
-    'editorBracketHighlight.foreground6': fg,
-    'editorBracketHighlight.unexpectedBracket.foreground': fg,
-  })
-
-  monaco.editor.defineTheme(TT_THEME_LIGHT, {
-    base: 'vs',
-    inherit: true,
-    rules: [],
-    colors: bracketColors(lightForeground),
-  })
-
-  monaco.editor.defineTheme(TT_THEME_DARK, {
-    base: 'vs-dark',
-    inherit: true,
-    rules: [],
-    colors: bracketColors(darkForeground),
-  })
-}
-
 function formatElapsed(ms: number) {
   const totalSeconds = Math.floor(ms / 1000)
   const minutes = Math.floor(totalSeconds / 60)
@@ -104,6 +89,13 @@ function snapshotFromEngine(engine: TypingEngineState, startedAtMs: number | nul
   }
 }
 
+function formatGhostDelta(ms: number) {
+  const seconds = Math.abs(ms) / 1000
+  return ms > 0 ? `+${seconds.toFixed(1)}s behind` : `-${seconds.toFixed(1)}s ahead`
+}
+
+const PROGRESS_SAVE_INTERVAL_MS = 3000
+
 function coerceInt(value: unknown, fallback: number): number {
   if (typeof value === 'number' && Number.isFinite(value)) return Math.floor(value)
   if (typeof value === 'string') {
@@ -113,33 +105,7 @@ function coerceInt(value: unknown, fallback: number): number {
   return fallback
 }
 
-const MonacoReadonly = memo(function MonacoReadonly({
-  value,
-  onMount,
-  beforeMount,
-  options,
-  theme,
-}: {
-  value: string
-  onMount: OnMount
-  beforeMount: BeforeMount
-  options: Monaco.editor.IStandaloneEditorConstructionOptions
-  theme: string
-}) {
-  return (
-    <Editor
-      height="100%"
-      defaultLanguage="plaintext"
-      value={value}
-      onMount={onMount}
-      beforeMount={beforeMount}
-      options={options}
-      theme={theme}
-    />
-  )
-})
-
-export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdateSettings, onChangeSegment, onComplete }: TypingProps) {
+export function Typing({ file, segments, settings, segmentIndex, resume, fileChanged, onReloadFile, onDismissFileChange, onReopen, onProgress, onBack, onUpdateSettings, onChangeSegment, onComplete }: TypingProps) {
   const perfRef = useRef({
     lastKeyHandlingMs: 0,
     lastDecorationUpdateMs: 0,
@@ -164,25 +130,39 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
   const monacoRef = useRef<typeof import('monaco-editor') | null>(null)
   const decorationsRef = useRef<Monaco.editor.IEditorDecorationsCollection | null>(null)
   const staticDecorationsRef = useRef<Monaco.editor.IEditorDecorationsCollection | null>(null)
+  const ghostDecorationsRef = useRef<Monaco.editor.IEditorDecorationsCollection | null>(null)
+  const ghostTimelineRef = useRef<GhostTimeline | null>(null)
+  const lastGhostCursorRef = useRef(-1)
   const lastRevealCursorRef = useRef(-1)
   const monacoContainerRef = useRef<HTMLDivElement | null>(null)
   const editorDisposablesRef = useRef<Monaco.IDisposable[]>([])
   const enterHintWidgetRef = useRef<Monaco.editor.IContentWidget | null>(null)
   const enterHintStateRef = useRef<{ visible: boolean; position: Monaco.IPosition | null }>({ visible: false, position: null })
+  const enterHintKeycapRef = useRef<HTMLDivElement | null>(null)
   const layoutRafRef = useRef<number | null>(null)
 
   const engineRef = useRef<TypingEngineState>(createTypingEngine(segmentText, settings.slackN, settings.autoSkipBlankLines))
   const autoSkipRef = useRef(settings.autoSkipBlankLines)
+  const indentStopsRef = useRef<number[] | null>(null)
   const commitRafRef = useRef<number | null>(null)
 
   const completedRef = useRef(false)
+  const resumeRef = useRef<SessionProgress | null>(resume ?? null)
+  const onProgressRef = useRef(onProgress)
+  const progressDirtyRef = useRef(false)
 
   const inputRef = useRef<HTMLTextAreaElement | null>(null)
   const isComposingRef = useRef(false)
-  const startAtRef = useRef<number | null>(null)
+  const clockRef = useRef<IdleClock>(createIdleClock(settings.idleThresholdSec * 1000))
   const [elapsedMs, setElapsedMs] = useState(0)
-  const [ui, setUi] = useState<UiSnapshot>(() => snapshotFromEngine(engineRef.current, startAtRef.current))
+  const [idle, setIdle] = useState(false)
+  const [ghostAttempt, setGhostAttempt] = useState<Attempt | null>(null)
+  const [ghostDeltaMs, setGhostDeltaMs] = useState<number | null>(null)
+  const [ui, setUi] = useState<UiSnapshot>(() => snapshotFromEngine(engineRef.current, clockRef.current.startAtMs))
   const [settingsOpened, setSettingsOpened] = useState(false)
+  const [pickerOpened, setPickerOpened] = useState(false)
+  const [encodingOpened, setEncodingOpened] = useState(false)
+  const [fileProgress, setFileProgress] = useState<FileProgress | null>(null)
   const [draftSettings, setDraftSettings] = useState<TypingSettings>(settings)
   const wasLockedRef = useRef(false)
 
@@ -190,6 +170,14 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
     setDraftSettings(settings)
   }, [settings])
 
+  useEffect(() => {
+    onProgressRef.current = onProgress
+  }, [onProgress])
+
+  useEffect(() => {
+    clockRef.current.thresholdMs = settings.idleThresholdSec * 1000
+  }, [settings.idleThresholdSec])
+
   useEffect(() => {
     if (ui.locked && !wasLockedRef.current) {
       notifications.show({
@@ -236,15 +224,37 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
     }
   }, [file.filePath])
 
-  function ensureStarted() {
-    if (startAtRef.current === null) startAtRef.current = Date.now()
-  }
+  // Only files read from disk (with a hash) can be decoded again.
+  const canReopen = Boolean(file.contentHash)
+
+  useEffect(() => {
+    if (!canReopen) return
+    return window.api.onReopenEncodingRequested(() => setEncodingOpened(true))
+  }, [canReopen])
+
+  const reopenWithEncoding = useCallback(async (encoding: string) => {
+    setEncodingOpened(false)
+    try {
+      onReopen(await window.api.reopenWithEncoding(file.filePath, encoding))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      notifications.show({ color: 'red', title: 'Reopen failed', message })
+    }
+  }, [file.filePath, onReopen])
+
+  const markActive = useCallback(() => {
+    noteActivity(clockRef.current, Date.now())
+    setIdle(false)
+  }, [])
 
   const buildSkipInfo = useCallback(() => {
     const maxLen = segmentText.length
     const rawCommentRanges: TextRange[] = settings.includeComments ? [] : (segment?.commentRanges ?? [])
     const preCommentPaddingRanges = settings.includeComments ? [] : computePreCommentPaddingRanges(segmentText, rawCommentRanges)
-    const leadingIndentRanges = settings.skipLeadingIndentation ? computeLeadingIndentationRanges(segmentText) : []
+    const autoIndentPlan = settings.autoIndent ? computeAutoIndentPlan(segmentText, settings.tabWidth) : null
+    const leadingIndentRanges = autoIndentPlan
+      ? autoIndentPlan.skipRanges
+      : (settings.skipLeadingIndentation ? computeLeadingIndentationRanges(segmentText) : [])
     const trailingWhitespaceRanges = settings.trimTrailingWhitespace ? computeTrailingWhitespaceRanges(segmentText) : []
 
     const skipSpaceRanges = mergeRanges([...leadingIndentRanges, ...preCommentPaddingRanges, ...trailingWhitespaceRanges], maxLen)
@@ -259,8 +269,14 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       ? baseSkipRanges
       : mergeRanges([...baseSkipRanges, ...lineBreakSkipRanges], maxLen)
 
-    return { commentRanges, skipSpaceRanges, engineSkipRanges }
-  }, [segment?.commentRanges, segmentText, settings.includeComments, settings.skipLeadingIndentation, settings.trimTrailingWhitespace])
+    return {
+      commentRanges,
+      skipSpaceRanges,
+      engineSkipRanges,
+      dedentStops: autoIndentPlan?.dedentStops ?? [],
+      indentStops: autoIndentPlan?.indentStops ?? null,
+    }
+  }, [segment?.commentRanges, segmentText, settings.autoIndent, settings.includeComments, settings.skipLeadingIndentation, settings.tabWidth, settings.trimTrailingWhitespace])
 
   const applyDecorations = useCallback(() => {
     const editor = editorRef.current
@@ -273,65 +289,8 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
 
     const state = engineRef.current
     const textLength = state.text.length
-    const decos: Monaco.editor.IModelDeltaDecoration[] = []
-
     const clamp = (value: number) => Math.max(0, Math.min(textLength, value))
-    const makeRange = (start: number, end: number) => {
-      const a = clamp(start)
-      const b = clamp(end)
-      const startPos = model.getPositionAt(a)
-      const endPos = model.getPositionAt(b)
-      return new monaco.Range(startPos.lineNumber, startPos.column, endPos.lineNumber, endPos.column)
-    }
-
-    const correctEnd = state.errorActive ? state.firstErrorIndex : state.typedEnd
-    if (correctEnd > 0) {
-      decos.push({
-        range: makeRange(0, correctEnd),
-        options: { inlineClassName: 'tt-mark-correct' },
-      })
-    }
-
-    if (state.errorActive && state.firstErrorIndex >= 0 && state.firstErrorIndex < textLength) {
-      decos.push({
-        range: makeRange(state.firstErrorIndex, state.firstErrorIndex + 1),
-        options: { inlineClassName: 'tt-mark-incorrect' },
-      })
-
-      const collateralStart = state.firstErrorIndex + 1
-      const collateralEnd = state.cursor
-      if (collateralEnd > collateralStart && collateralStart < textLength) {
-        decos.push({
-          range: makeRange(collateralStart, collateralEnd),
-          options: { inlineClassName: 'tt-mark-collateral' },
-        })
-      }
-    }
-
-    const expectedChar = state.cursor < textLength ? state.text[state.cursor] : null
-    const showEnterHint = expectedChar === '\n'
-    const visualCursorOffset = showEnterHint && state.typedEnd < state.cursor ? state.typedEnd : state.cursor
-
-    if (state.cursor < textLength) {
-      if (showEnterHint && state.typedEnd < state.cursor) {
-        const pos = model.getPositionAt(clamp(visualCursorOffset))
-        decos.push({
-          range: new monaco.Range(pos.lineNumber, pos.column, pos.lineNumber, pos.column),
-          options: { afterContentClassName: 'tt-cursor-after' },
-        })
-      } else {
-        decos.push({
-          range: makeRange(state.cursor, state.cursor + 1),
-          options: { inlineClassName: 'tt-cursor-char' },
-        })
-      }
-    } else {
-      const pos = model.getPositionAt(textLength)
-      decos.push({
-        range: new monaco.Range(pos.lineNumber, pos.column, pos.lineNumber, pos.column),
-        options: { afterContentClassName: 'tt-cursor-after' },
-      })
-    }
+    const { decorations: decos, showEnterHint, showDedentHint, visualCursorOffset } = buildProgressDecorations(state, model, monaco)
 
     const decorationStart = performance.now()
     decorations.set(decos)
@@ -340,9 +299,18 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
 
     const hint = enterHintStateRef.current
     const widget = enterHintWidgetRef.current
+    const keycap = enterHintKeycapRef.current
+    if (keycap) {
+      const label = showDedentHint ? '⌫' : '↵'
+      if (keycap.textContent !== label) keycap.textContent = label
+    }
     if (widget) {
-      if (showEnterHint) {
-        const nextPos = model.getPositionAt(clamp(visualCursorOffset))
+      if (showEnterHint || showDedentHint) {
+        // The dedent hint sits at the end of the line so it doesn't cover the char to type.
+        const cursorPos = model.getPositionAt(clamp(visualCursorOffset))
+        const nextPos = showDedentHint
+          ? { lineNumber: cursorPos.lineNumber, column: model.getLineMaxColumn(cursorPos.lineNumber) }
+          : cursorPos
         const prevPos = hint.position
         const samePos = prevPos?.lineNumber === nextPos.lineNumber && prevPos.column === nextPos.column
         if (!hint.visible || !samePos) {
@@ -415,6 +383,84 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
     decorations.set(decos)
   }, [buildSkipInfo, settings.includeComments])
 
+  const applyGhostDecoration = useCallback((elapsed: number) => {
+    const editor = editorRef.current
+    const monaco = monacoRef.current
+    const decorations = ghostDecorationsRef.current
+    const timeline = ghostTimelineRef.current
+    if (!editor || !monaco || !decorations) return
+
+    const model = editor.getModel()
+    if (!model || !timeline) {
+      decorations.clear()
+      lastGhostCursorRef.current = -1
+      return
+    }
+
+    const textLength = model.getValueLength()
+    const ghostCursor = Math.max(0, Math.min(textLength, ghostCursorAt(timeline, elapsed)))
+    if (ghostCursor === lastGhostCursorRef.current) return
+    lastGhostCursorRef.current = ghostCursor
+
+    const startPos = model.getPositionAt(ghostCursor)
+    const range = ghostCursor < textLength
+      ? new monaco.Range(startPos.lineNumber, startPos.column, startPos.lineNumber, startPos.column + 1)
+      : new monaco.Range(startPos.lineNumber, startPos.column, startPos.lineNumber, startPos.column)
+    decorations.set([{
+      range,
+      options: ghostCursor < textLength ? { inlineClassName: 'tt-ghost-cursor' } : { afterContentClassName: 'tt-ghost-cursor-after' },
+    }])
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setFileProgress(null)
+    if (!file.contentHash) return
+
+    window.api.getFileProgress(file.filePath, file.contentHash)
+      .then((progress) => {
+        if (!cancelled) setFileProgress(progress)
+      })
+      .catch((error) => {
+        console.warn('Failed to load file progress:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [file.contentHash, file.filePath])
+
+  useEffect(() => {
+    let cancelled = false
+    setGhostAttempt(null)
+    if (!settings.showGhost || !segment) return
+
+    window.api.listAttempts()
+      .then((attempts) => {
+        if (cancelled) return
+        setGhostAttempt(pickBestAttempt(attempts, {
+          filePath: file.filePath,
+          segmentIndex,
+          segmentStartLine: segment.startLine,
+          segmentEndLine: segment.endLine,
+        }, segmentText))
+      })
+      .catch((error) => {
+        console.warn('Failed to load attempts for ghost:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [file.filePath, segment, segmentIndex, segmentText, settings.showGhost])
+
+  useEffect(() => {
+    ghostTimelineRef.current = ghostAttempt ? buildGhostTimeline(ghostAttempt) : null
+    lastGhostCursorRef.current = -1
+    setGhostDeltaMs(null)
+    applyGhostDecoration(activeElapsedMs(clockRef.current, Date.now()))
+  }, [applyGhostDecoration, ghostAttempt])
+
   const maybeComplete = useCallback(() => {
     const engine = engineRef.current
     if (completedRef.current) return
@@ -423,9 +469,10 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
 
     completedRef.current = true
 
+    const clock = clockRef.current
     const endAtMs = Date.now()
-    const startAtMs = startAtRef.current ?? endAtMs
-    const durationMs = Math.max(0, endAtMs - startAtMs)
+    const startAtMs = clock.startAtMs ?? endAtMs
+    const durationMs = activeElapsedMs(clock, endAtMs)
 
     const attempt: Attempt = {
       id: crypto.randomUUID(),
@@ -437,6 +484,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       linesPerSegment: settings.linesPerSegment,
       tabWidth: settings.tabWidth,
       slackN: settings.slackN,
+      errorPolicy: engine.errorPolicy,
       typeableChars: engine.typeableChars,
       typedKeystrokes: engine.typedKeystrokes,
       incorrect: engine.incorrect,
@@ -446,8 +494,29 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       startAtMs,
       endAtMs,
       durationMs,
+      activeDurationMs: durationMs,
+      wallDurationMs: wallElapsedMs(clock, endAtMs),
+      pauseCount: clock.pauseCount,
+      idleThresholdMs: clock.thresholdMs,
       wpm: computeWpm(engine.correctChars, durationMs),
       unproductivePercent: computeUnproductivePercent(engine.typedKeystrokes, engine.incorrect, engine.collateral, engine.backspaces),
+      accuracyPercent: computeAccuracyPercent(engine.errorPolicy, engine.typeableChars, engine.correctChars, engine.typedKeystrokes, engine.backspaces),
+      rawWpm: computeRawWpm(engine.typedKeystrokes, durationMs),
+      netWpm: computeNetWpm(engine.typedKeystrokes, countUncorrectedErrors(engine), durationMs),
+      cpm: computeCpm(engine.correctChars, durationMs),
+      kspc: computeKspc(engine.typedKeystrokes + engine.dedentKeystrokes, engine.correctChars),
+      consistencyPercent: engine.events
+        ? computeConsistencyPercent(computeInterKeyIntervals(engine.events, clock.thresholdMs))
+        : undefined,
+      events: engine.events?.slice(),
+      replay: {
+        text: engine.text,
+        skipRanges: engine.skipRanges.slice(),
+        autoSkipBlankLines: engine.autoSkipBlankLines,
+        allowWhitespaceAdvanceToNewline: engine.allowWhitespaceAdvanceToNewline,
+        autoCloseBrackets: engine.autoCloseBrackets,
+        dedentStops: engine.dedentStops.slice(),
+      },
     }
 
     onComplete(attempt)
@@ -459,7 +528,8 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       commitRafRef.current = null
 
       const engine = engineRef.current
-      setUi(snapshotFromEngine(engine, startAtRef.current))
+      progressDirtyRef.current = true
+      setUi(snapshotFromEngine(engine, clockRef.current.startAtMs))
       maybeComplete()
     })
   }, [maybeComplete])
@@ -470,27 +540,75 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       cancelAnimationFrame(commitRafRef.current)
       commitRafRef.current = null
     }
-    const { engineSkipRanges } = buildSkipInfo()
+    const { engineSkipRanges, dedentStops, indentStops } = buildSkipInfo()
+    indentStopsRef.current = indentStops
     engineRef.current = createTypingEngine(
       segmentText,
       settings.slackN,
       autoSkipRef.current,
       engineSkipRanges,
       !settings.includeComments,
+      true,
+      settings.errorPolicy,
+      settings.autoCloseBrackets,
+      dedentStops,
     )
-    startAtRef.current = null
-    setElapsedMs(0)
+    const idleThresholdMs = clockRef.current.thresholdMs
+    clockRef.current = createIdleClock(idleThresholdMs)
+
+    // A saved session continues once; a changed file (different segment text) starts over.
+    const pendingResume = resumeRef.current
+    resumeRef.current = null
+    const restored = pendingResume ? restoreTypingEngine(pendingResume.engine, segmentText) : null
+    if (pendingResume && restored) {
+      const clock = resumeIdleClock(idleThresholdMs, pendingResume.elapsedMs, pendingResume.pauseCount ?? 0, Date.now())
+      const shiftMs = (clock.startAtMs ?? 0) - pendingResume.startAtMs
+      for (const event of restored.events ?? []) event.atMs += shiftMs
+      engineRef.current = restored
+      clockRef.current = clock
+    } else {
+      onProgressRef.current(null)
+    }
+    progressDirtyRef.current = false
+
+    setElapsedMs(activeElapsedMs(clockRef.current, Date.now()))
+    setIdle(false)
+    setGhostDeltaMs(null)
     lastRevealCursorRef.current = -1
-    setUi(snapshotFromEngine(engineRef.current, null))
+    applyGhostDecoration(0)
+    setUi(snapshotFromEngine(engineRef.current, clockRef.current.startAtMs))
     focusInputSoon()
     applyStaticDecorations()
     scheduleCommit()
-  }, [applyStaticDecorations, buildSkipInfo, focusInputSoon, scheduleCommit, segmentText, settings.includeComments, settings.slackN])
+  }, [applyGhostDecoration, applyStaticDecorations, buildSkipInfo, focusInputSoon, scheduleCommit, segmentText, settings.autoCloseBrackets, settings.errorPolicy, settings.includeComments, settings.slackN])
 
   useEffect(() => {
     resetEngine()
   }, [resetEngine])
 
+  const saveProgress = useCallback(() => {
+    progressDirtyRef.current = false
+    const clock = clockRef.current
+    if (completedRef.current || clock.startAtMs === null) return
+    onProgressRef.current({
+      startAtMs: clock.startAtMs,
+      elapsedMs: activeElapsedMs(clock, Date.now()),
+      pauseCount: clock.pauseCount,
+      engine: engineRef.current,
+    })
+  }, [])
+
+  useEffect(() => {
+    const id = setInterval(() => {
+      if (progressDirtyRef.current) saveProgress()
+    }, PROGRESS_SAVE_INTERVAL_MS)
+    return () => {
+      clearInterval(id)
+      // Leaving the page (e.g. Back to Home) keeps the latest keys too.
+      if (progressDirtyRef.current) saveProgress()
+    }
+  }, [saveProgress])
+
   useEffect(() => {
     return () => {
       if (commitRafRef.current !== null) cancelAnimationFrame(commitRafRef.current)
@@ -500,23 +618,35 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       if (enterHintWidgetRef.current && editorRef.current) {
         editorRef.current.removeContentWidget(enterHintWidgetRef.current)
         enterHintWidgetRef.current = null
+        enterHintKeycapRef.current = null
       }
     }
   }, [])
 
   useEffect(() => {
     const id = setInterval(() => {
-      const startedAt = startAtRef.current
-      setElapsedMs(startedAt ? Date.now() - startedAt : 0)
+      const clock = clockRef.current
+      const now = Date.now()
+      const elapsed = activeElapsedMs(clock, now)
+      setElapsedMs(elapsed)
+      setIdle(!completedRef.current && isIdle(clock, now))
+
+      const timeline = ghostTimelineRef.current
+      if (!timeline || clock.startAtMs === null || completedRef.current) return
+      applyGhostDecoration(elapsed)
+      const reachedAt = ghostReachTimeMs(timeline, engineRef.current.cursor)
+      setGhostDeltaMs(reachedAt === null ? null : elapsed - reachedAt)
     }, 200)
     return () => clearInterval(id)
-  }, [])
+  }, [applyGhostDecoration])
 
   const onMount: OnMount = useCallback((editor, monaco) => {
     editorRef.current = editor
     monacoRef.current = monaco
     decorationsRef.current = editor.createDecorationsCollection()
     staticDecorationsRef.current = editor.createDecorationsCollection()
+    ghostDecorationsRef.current = editor.createDecorationsCollection()
+    lastGhostCursorRef.current = -1
 
     try {
       monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({ noSemanticValidation: true, noSyntaxValidation: true })
@@ -541,6 +671,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       keycap.className = 'tt-enterHintKeycap'
       keycap.textContent = '↵'
       domNode.appendChild(keycap)
+      enterHintKeycapRef.current = keycap
 
       const widget: Monaco.editor.IContentWidget = {
         getId: () => 'tt-enter-hint',
@@ -569,8 +700,9 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
     scheduleEditorLayout('mount')
     focusInputSoon()
     applyStaticDecorations()
+    applyGhostDecoration(0)
     scheduleCommit()
-  }, [applyStaticDecorations, focusInputSoon, scheduleCommit, settings.editorFontSize, scheduleEditorLayout])
+  }, [applyGhostDecoration, applyStaticDecorations, focusInputSoon, scheduleCommit, settings.editorFontSize, scheduleEditorLayout])
 
   const beforeMount: BeforeMount = useCallback((monaco) => {
     ensureTypingThemes(monaco as unknown as typeof import('monaco-editor'))
@@ -585,7 +717,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
     perfRef.current.lastKeyAt = keyStart
     perfRef.current.pendingRenderLatency = true
 
-    ensureStarted()
+    markActive()
     for (let i = 0; i < text.length; i += 1) {
       handleKey(engineRef.current, text[i])
     }
@@ -593,7 +725,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
     applyDecorations()
     scheduleCommit()
     perfRef.current.lastKeyHandlingMs = performance.now() - keyStart
-  }, [applyDecorations, scheduleCommit, segment])
+  }, [applyDecorations, markActive, scheduleCommit, segment])
 
   const handleInput = useCallback((event: React.FormEvent<HTMLTextAreaElement>) => {
     if (isComposingRef.current) return
@@ -642,6 +774,12 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       return
     }
 
+    if (accel && e.key.toLowerCase() === 'g') {
+      e.preventDefault()
+      setPickerOpened(true)
+      return
+    }
+
     if (accel && e.key === 'ArrowLeft') {
       e.preventDefault()
       onChangeSegment(Math.max(0, segmentIndex - 1))
@@ -654,6 +792,21 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       return
     }
 
+    // Ctrl+Backspace (Windows/Linux) and Alt/Option+Backspace (macOS) delete a word.
+    if ((e.ctrlKey || e.altKey) && !e.metaKey && e.key === 'Backspace') {
+      e.preventDefault()
+      if (!segment || isComplete(engineRef.current) || isComposingRef.current) return
+      const keyStart = performance.now()
+      perfRef.current.lastKeyAt = keyStart
+      perfRef.current.pendingRenderLatency = true
+      markActive()
+      handleWordBackspace(engineRef.current)
+      applyDecorations()
+      scheduleCommit()
+      perfRef.current.lastKeyHandlingMs = performance.now() - keyStart
+      return
+    }
+
     if (accel || e.altKey) return
     if (!segment) return
 
@@ -668,7 +821,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       const keyStart = performance.now()
       perfRef.current.lastKeyAt = keyStart
       perfRef.current.pendingRenderLatency = true
-      ensureStarted()
+      markActive()
       handleBackspace(engineRef.current)
       applyDecorations()
       scheduleCommit()
@@ -681,7 +834,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       const keyStart = performance.now()
       perfRef.current.lastKeyAt = keyStart
       perfRef.current.pendingRenderLatency = true
-      ensureStarted()
+      markActive()
       handleKey(engineRef.current, '\n')
       applyDecorations()
       scheduleCommit()
@@ -695,8 +848,12 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
       const keyStart = performance.now()
       perfRef.current.lastKeyAt = keyStart
       perfRef.current.pendingRenderLatency = true
-      ensureStarted()
-      for (let i = 0; i < settings.tabWidth; i += 1) handleKey(engineRef.current, ' ')
+      markActive()
+      // With auto-indent, Tab fills the typeable indentation up to its next tab stop.
+      const engine = engineRef.current
+      const indentStops = indentStopsRef.current
+      const spaces = (indentStops && spacesToIndentStop(engine.text, indentStops, engine.cursor)) ?? settings.tabWidth
+      for (let i = 0; i < spaces; i += 1) handleKey(engine, ' ')
       applyDecorations()
       scheduleCommit()
       perfRef.current.lastKeyHandlingMs = performance.now() - keyStart
@@ -716,39 +873,6 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
   const editorFontSize = settings.editorFontSize
   const editorLineHeight = useMemo(() => Math.max(16, Math.round(editorFontSize * 1.35)), [editorFontSize])
 
-  const editorOptions = useMemo<Monaco.editor.IStandaloneEditorConstructionOptions>(() => ({
-    readOnly: true,
-    domReadOnly: true,
-    // We render our own cursor/position indicator via decorations/content widgets.
-    // Hide Monaco's native cursor to avoid occasional focus-related "ghost" caret rendering.
-    cursorWidth: 0,
-    hideCursorInOverviewRuler: true,
-    minimap: { enabled: false },
-    scrollBeyondLastLine: false,
-    wordWrap: 'off',
-    renderWhitespace: 'all',
-    renderLineHighlight: 'none',
-    renderValidationDecorations: 'off',
-    occurrencesHighlight: 'off',
-    selectionHighlight: false,
-    folding: false,
-    bracketPairColorization: { enabled: false },
-    guides: { bracketPairs: false },
-    matchBrackets: 'never',
-    glyphMargin: false,
-    overviewRulerBorder: false,
-    overviewRulerLanes: 0,
-    hover: { enabled: false },
-    parameterHints: { enabled: false },
-    quickSuggestions: false,
-    suggestOnTriggerCharacters: false,
-    contextmenu: false,
-    unicodeHighlight: {
-      ambiguousCharacters: false,
-      invisibleCharacters: false,
-      nonBasicASCII: false,
-    },
-  }), [])
 
   useEffect(() => {
     const editor = editorRef.current
@@ -811,8 +935,28 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
 
           <Group gap={6} wrap="nowrap">
             <Badge variant="light">Seg {segmentLabel}</Badge>
+            {segment?.fileName && <Badge variant="light" color="gray" tt="none" title={segment.fileName}>{segment.fileName}</Badge>}
             {segment && <Badge variant="light">Lines {segment.startLine}-{segment.endLine}</Badge>}
-            <Badge variant="light">Enc {file.encoding}</Badge>
+            {fileProgress && (
+              <Badge
+                variant="light"
+                color="teal"
+                title={`${fileProgress.completed.length} segments done · ${formatElapsed(fileProgress.totalDurationMs)} typed on this file`}
+              >
+                File {Math.round(fileCoverage(fileProgress) * 100)}%
+              </Badge>
+            )}
+            {segment?.difficulty && (
+              <Badge variant="light" color="gray" title="Segment difficulty (0-100)">Difficulty {segment.difficulty.score}</Badge>
+            )}
+            <Badge
+              variant="light"
+              style={canReopen ? { cursor: 'pointer' } : undefined}
+              title={canReopen ? 'Reopen with another encoding' : undefined}
+              onClick={canReopen ? () => setEncodingOpened(true) : undefined}
+            >
+              Enc {file.encoding}
+            </Badge>
           </Group>
 
           <Group gap={6} wrap="nowrap">
@@ -832,6 +976,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
             >
               Next
             </Button>
+            <Button size="xs" variant="light" disabled={segments.length <= 1} onClick={() => setPickerOpened(true)}>Segments (Ctrl+G)</Button>
             <Button size="xs" variant="default" onClick={resetEngine}>Restart (Ctrl+R)</Button>
             <Button size="xs" variant="default" onClick={() => setSettingsOpened(true)}>Settings</Button>
             <ThemeToggle size="xs" variant="default" />
@@ -842,7 +987,7 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
           <Progress value={progress} size="sm" radius="xl" />
           <div className="tt-muted mt-1 flex items-center justify-between text-xs">
             <span>{totalChars === 0 ? 'Empty segment' : `${ui.cursor}/${totalChars} chars`}</span>
-            <span>Ctrl+←/→ segment · Ctrl+R restart</span>
+            <span>Ctrl+←/→ segment · Ctrl+Backspace delete word · Ctrl+R restart</span>
           </div>
         </div>
 
@@ -853,6 +998,16 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
             </div>
           </div>
         )}
+
+        {fileChanged && (
+          <div className="px-3 pb-3">
+            <div className="flex items-center gap-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-200">
+              <span className="flex-1">{file.fileName} changed on disk. Reload it to re-segment (this attempt is discarded).</span>
+              <Button size="xs" variant="light" color="yellow" onClick={onReloadFile}>Reload</Button>
+              <Button size="xs" variant="subtle" color="gray" onClick={onDismissFileChange}>Dismiss</Button>
+            </div>
+          </div>
+        )}
       </header>
 
       <div className="tt-panel shrink-0 border-b px-3 py-3">
@@ -879,7 +1034,24 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
           </div>
           <div className="tt-panel rounded-md border px-3 py-2">
             <div className="tt-muted text-xs">elapsed</div>
-            <div className="font-mono text-lg">{formatElapsed(elapsedMs)}</div>
+            <div className="flex items-baseline gap-2">
+              <div className="font-mono text-lg">{formatElapsed(elapsedMs)}</div>
+              {idle && (
+                <Badge color="gray" variant="light" title="No keys for a while; the clock resumes with the next key.">
+                  paused
+                </Badge>
+              )}
+              {ghostAttempt && ghostDeltaMs !== null && (
+                <Text
+                  size="xs"
+                  c={ghostDeltaMs > 0 ? 'red' : 'green'}
+                  className="font-mono"
+                  title={`Ghost: best run at ${ghostAttempt.wpm.toFixed(1)} WPM`}
+                >
+                  {formatGhostDelta(ghostDeltaMs)}
+                </Text>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -903,10 +1075,29 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
           autoCapitalize="off"
         />
         <div ref={monacoContainerRef} className="tt-monacoFrame">
-          <MonacoReadonly value={segmentText} onMount={onMount} beforeMount={beforeMount} options={editorOptions} theme={monacoTheme} />
+          <MonacoReadonly value={segmentText} onMount={onMount} beforeMount={beforeMount} options={READONLY_EDITOR_OPTIONS} theme={monacoTheme} />
         </div>
       </div>
 
+      <SegmentPicker
+        opened={pickerOpened}
+        onClose={() => setPickerOpened(false)}
+        filePath={file.filePath}
+        segments={segments}
+        currentIndex={segmentIndex}
+        onPick={onChangeSegment}
+      />
+
+      <EncodingPicker
+        opened={encodingOpened}
+        current={file.encoding}
+        onClose={() => {
+          setEncodingOpened(false)
+          focusInputSoon()
+        }}
+        onPick={(encoding) => void reopenWithEncoding(encoding)}
+      />
+
       <Drawer opened={settingsOpened} onClose={() => setSettingsOpened(false)} title="Settings" position="right" size="sm">
         <Stack gap="md">
           <NumberInput
@@ -916,14 +1107,50 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
             max={5000}
             onChange={(value) => setDraftSettings((prev) => ({ ...prev, linesPerSegment: coerceInt(value, prev.linesPerSegment) }))}
           />
+          <Select
+            label="Segmentation"
+            description="Blocks keeps whole functions/classes together, packed up to the lines per segment. Reloads segments."
+            value={draftSettings.segmentStrategy}
+            data={[
+              { value: 'lines', label: 'Fixed line count' },
+              { value: 'blocks', label: 'Function / class blocks' },
+            ]}
+            onChange={(value) => {
+              if (value === 'lines' || value === 'blocks') {
+                setDraftSettings((prev) => ({ ...prev, segmentStrategy: value }))
+              }
+            }}
+          />
           <Switch
             label="Auto-skip blank lines"
             description="When pressing Enter on blank lines, automatically skip consecutive newlines."
             checked={draftSettings.autoSkipBlankLines}
             onChange={(event) => setDraftSettings((prev) => ({ ...prev, autoSkipBlankLines: event.currentTarget.checked }))}
           />
+          <Switch
+            label="Auto-close brackets and quotes"
+            description={'Like an IDE: after typing ( [ { " or \', its closing partner is filled in. You can still type over it.'}
+            checked={draftSettings.autoCloseBrackets}
+            onChange={(event) => setDraftSettings((prev) => ({ ...prev, autoCloseBrackets: event.currentTarget.checked }))}
+          />
+          <Select
+            label="Error policy"
+            description="What happens after a mistyped char."
+            value={draftSettings.errorPolicy}
+            data={[
+              { value: 'strict', label: 'Strict (stop on error until the right key)' },
+              { value: 'slack', label: 'Slack (N extra chars, then lock)' },
+              { value: 'free', label: 'Free flow (errors stay, no lock)' },
+            ]}
+            onChange={(value) => {
+              if (value === 'strict' || value === 'slack' || value === 'free') {
+                setDraftSettings((prev) => ({ ...prev, errorPolicy: value }))
+              }
+            }}
+          />
           <NumberInput
             label="Slack N"
+            disabled={draftSettings.errorPolicy !== 'slack'}
             value={draftSettings.slackN}
             min={0}
             max={50}
@@ -939,15 +1166,36 @@ export function Typing({ file, segments, settings, segmentIndex, onBack, onUpdat
           <Switch
             label="Skip leading indentation"
             description="Do not type spaces at the start of each line."
+            disabled={draftSettings.autoIndent}
             checked={draftSettings.skipLeadingIndentation}
             onChange={(event) => setDraftSettings((prev) => ({ ...prev, skipLeadingIndentation: event.currentTarget.checked }))}
           />
+          <Switch
+            label="Editor auto-indent"
+            description="Enter keeps the previous line's indentation, like an IDE. Type deeper indentation with Tab and dedent with Backspace."
+            checked={draftSettings.autoIndent}
+            onChange={(event) => setDraftSettings((prev) => ({ ...prev, autoIndent: event.currentTarget.checked }))}
+          />
           <Switch
             label="Trim trailing whitespace"
             description="Do not type spaces/tabs at the end of each line."
             checked={draftSettings.trimTrailingWhitespace}
             onChange={(event) => setDraftSettings((prev) => ({ ...prev, trimTrailingWhitespace: event.currentTarget.checked }))}
           />
+          <Switch
+            label="Ghost racer"
+            description="Show a ghost cursor replaying your best run on this segment, with an ahead/behind indicator."
+            checked={draftSettings.showGhost}
+            onChange={(event) => setDraftSettings((prev) => ({ ...prev, showGhost: event.currentTarget.checked }))}
+          />
+          <NumberInput
+            label="Idle pause (seconds)"
+            description="After this long without a key, the clock pauses until you type again. 0 turns it off."
+            value={draftSettings.idleThresholdSec}
+            min={0}
+            max={600}
+            onChange={(value) => setDraftSettings((prev) => ({ ...prev, idleThresholdSec: coerceInt(value, prev.idleThresholdSec) }))}
+          />
           <Switch
             label="Show debug overlay"
             description="Shows perf timings (key handling / decorations / render count) for diagnosing input lag. Shortcut: Ctrl+Shift+D."
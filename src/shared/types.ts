@@ -3,15 +3,66 @@ export type OpenFileResult = {
   fileName: string
   content: string
   encoding: string
+  /** SHA-256 of the decoded content; absent for synthetic files (drills, git diffs, clipboard snippets). */
+  contentHash?: string
+  /** Set for git diffs: each hunk is segmented on its own, under its own file name. */
+  hunks?: DiffHunk[]
+}
+
+/** An iconv-lite encoding name and what to call it in the UI. */
+export type EncodingOption = {
+  value: string
+  label: string
+}
+
+/** A file named on the command line, read by main, with where to start in it. */
+export type LaunchOpen = {
+  file: OpenFileResult
+  /** 1-based line; the session starts in the segment containing it. Wins over `segmentIndex`. */
+  line?: number
+  segmentIndex?: number
+}
+
+/** A run of added lines from a diff; lines are numbered on the new side of `filePath`. */
+export type DiffHunk = {
+  filePath: string
+  startLine: number
+  endLine: number
+  text: string
+}
+
+export type GitCommit = {
+  hash: string
+  shortHash: string
+  subject: string
+  author: string
+  timeMs: number
+}
+
+export type GitRepo = {
+  repoPath: string
+  repoName: string
+  commits: GitCommit[]
 }
 
 export type TextAlign = 'left' | 'center' | 'right'
 
+export type ErrorPolicy = 'strict' | 'slack' | 'free'
+
+/** `lines` cuts every `linesPerSegment` lines; `blocks` keeps functions/classes whole. */
+export type SegmentStrategy = 'lines' | 'blocks'
+
 export type TextRange = {
   start: number
   end: number
 }
 
+/** `count` Backspace presses expected at `offset` to undo indentation an editor carried over. */
+export type DedentStop = {
+  offset: number
+  count: number
+}
+
 export enum Mark {
   UNTOUCHED = 'UNTOUCHED',
   CORRECT = 'CORRECT',
@@ -19,26 +70,63 @@ export enum Mark {
   COLLATERAL = 'COLLATERAL',
 }
 
+export type KeystrokeEvent = {
+  atMs: number
+  kind: 'key' | 'backspace' | 'wordBackspace'
+  offset: number
+  expected: string
+  typed: string
+  mark: Mark
+}
+
+export type ReplaySource = {
+  text: string
+  skipRanges: TextRange[]
+  autoSkipBlankLines: boolean
+  allowWhitespaceAdvanceToNewline: boolean
+  autoCloseBrackets?: boolean
+  dedentStops?: DedentStop[]
+}
+
+/** See `computeSegmentDifficulty()`; `score` is 0 (trivial) to 100. */
+export type SegmentDifficulty = {
+  score: number
+  symbolDensity: number
+  meanIdentifierLength: number
+  maxDepth: number
+  typeableChars: number
+}
+
 export type TextSegment = {
   index: number
   startLine: number
   endLine: number
   text: string
   commentRanges?: TextRange[]
+  difficulty?: SegmentDifficulty
+  /** Source file of a diff hunk; absent when the segment comes from the opened file itself. */
+  fileName?: string
 }
 
 export type TypingSettings = {
   linesPerSegment: number
+  segmentStrategy: SegmentStrategy
   tabWidth: number
+  errorPolicy: ErrorPolicy
   slackN: number
   maxSegmentChars: number
   editorFontSize: number
   textAlign: TextAlign
   includeComments: boolean
   skipLeadingIndentation: boolean
+  autoIndent: boolean
   trimTrailingWhitespace: boolean
   autoSkipBlankLines: boolean
+  autoCloseBrackets: boolean
   showDebugOverlay: boolean
+  showGhost: boolean
+  /** Seconds without a key before the attempt clock pauses; 0 disables idle detection. */
+  idleThresholdSec: number
 }
 
 export type Attempt = {
@@ -54,6 +142,7 @@ export type Attempt = {
   linesPerSegment: number
   tabWidth: number
   slackN: number
+  errorPolicy?: ErrorPolicy
 
   typeableChars: number
   typedKeystrokes: number
@@ -64,8 +153,113 @@ export type Attempt = {
 
   startAtMs: number
   endAtMs: number
+  /** Active typing time: idle pauses beyond `idleThresholdMs` are left out. */
   durationMs: number
+  /** Same as `durationMs`; absent on attempts recorded before idle detection. */
+  activeDurationMs?: number
+  wallDurationMs?: number
+  pauseCount?: number
+  idleThresholdMs?: number
 
   wpm: number
   unproductivePercent: number
+  accuracyPercent?: number
+  /** All keystrokes / 5 per minute, corrections included. */
+  rawWpm?: number
+  /** Raw WPM minus one word per minute per mistake. */
+  netWpm?: number
+  cpm?: number
+  /** Keystrokes (including Backspace) per correct character. */
+  kspc?: number
+  /** 100 minus the coefficient of variation of inter-key intervals; idle gaps excluded. */
+  consistencyPercent?: number
+
+  events?: KeystrokeEvent[]
+  replay?: ReplaySource
+}
+
+export type SessionProgress = {
+  startAtMs: number
+  /** Active typing time on the segment so far. */
+  elapsedMs: number
+  pauseCount?: number
+  /** Serialized `TypingEngineState`; validated by `restoreTypingEngine()` before use. */
+  engine: unknown
+}
+
+/** Where a practice session stopped; persisted by the main process so it can be resumed. */
+export type SavedSession = {
+  savedAtMs: number
+  filePath: string
+  fileName: string
+  settings: TypingSettings
+  segmentIndex: number
+  progress?: SessionProgress
+}
+
+export type ResumableSession = {
+  session: SavedSession
+  file: OpenFileResult
+}
+
+export type FolderFile = {
+  filePath: string
+  /** Relative to the scanned folder, `/`-separated. */
+  relativePath: string
+  lineCount: number
+  sizeBytes: number
+}
+
+export type FolderScan = {
+  rootPath: string
+  rootName: string
+  files: FolderFile[]
+  /** Stopped at the file limit; the tree is incomplete. */
+  truncated: boolean
+  skippedBinary: number
+}
+
+/** A most-recently-used entry, kept by the main process. */
+export type RecentFile = {
+  filePath: string
+  fileName: string
+  encoding: string
+  /** Segment the last session on this file was at. */
+  lastSegmentIndex?: number
+  lastOpenedAtMs: number
+}
+
+export type CompletedSegment = {
+  segmentIndex: number
+  startLine: number
+  endLine: number
+  bestWpm: number
+  attempts: number
+}
+
+/** How much of one version of a file (path + content hash) has been typed. */
+export type FileProgress = {
+  filePath: string
+  fileName: string
+  contentHash: string
+  lineCount: number
+  segmentCount: number
+  completed: CompletedSegment[]
+  totalDurationMs: number
+  updatedAtMs: number
+}
+
+/** One finished segment, as reported by the renderer. */
+export type FileProgressUpdate = {
+  filePath: string
+  fileName: string
+  contentHash: string
+  lineCount: number
+  segmentCount: number
+  segmentIndex: number
+  startLine: number
+  endLine: number
+  wpm: number
+  durationMs: number
+  atMs: number
 }
@@ -1,17 +1,23 @@
-import type { TextAlign, TypingSettings } from './types'
+import type { ErrorPolicy, SegmentStrategy, TextAlign, TypingSettings } from './types'
 
 export const DEFAULT_TYPING_SETTINGS: TypingSettings = {
   linesPerSegment: 200,
+  segmentStrategy: 'lines',
   tabWidth: 4,
+  errorPolicy: 'slack',
   slackN: 3,
   maxSegmentChars: 20_000,
   editorFontSize: 13,
   textAlign: 'center',
   includeComments: true,
   skipLeadingIndentation: true,
+  autoIndent: false,
   trimTrailingWhitespace: true,
   autoSkipBlankLines: true,
+  autoCloseBrackets: false,
   showDebugOverlay: false,
+  showGhost: true,
+  idleThresholdSec: 10,
 }
 
 function coerceInt(value: unknown, fallback: number): number {
@@ -32,18 +38,34 @@ function normalizeTextAlign(value: unknown, fallback: TextAlign): TextAlign {
   return fallback
 }
 
+function normalizeSegmentStrategy(value: unknown, fallback: SegmentStrategy): SegmentStrategy {
+  if (value === 'lines' || value === 'blocks') return value
+  return fallback
+}
+
+function normalizeErrorPolicy(value: unknown, fallback: ErrorPolicy): ErrorPolicy {
+  if (value === 'strict' || value === 'slack' || value === 'free') return value
+  return fallback
+}
+
 export function normalizeTypingSettings(input: Partial<TypingSettings>): TypingSettings {
   return {
     linesPerSegment: clampInt(coerceInt(input.linesPerSegment, DEFAULT_TYPING_SETTINGS.linesPerSegment), 1, 5000),
+    segmentStrategy: normalizeSegmentStrategy(input.segmentStrategy, DEFAULT_TYPING_SETTINGS.segmentStrategy),
     tabWidth: clampInt(coerceInt(input.tabWidth, DEFAULT_TYPING_SETTINGS.tabWidth), 0, 16),
+    errorPolicy: normalizeErrorPolicy(input.errorPolicy, DEFAULT_TYPING_SETTINGS.errorPolicy),
     slackN: clampInt(coerceInt(input.slackN, DEFAULT_TYPING_SETTINGS.slackN), 0, 50),
     maxSegmentChars: clampInt(coerceInt(input.maxSegmentChars, DEFAULT_TYPING_SETTINGS.maxSegmentChars), 500, 500_000),
     editorFontSize: clampInt(coerceInt(input.editorFontSize, DEFAULT_TYPING_SETTINGS.editorFontSize), 10, 32),
     textAlign: normalizeTextAlign(input.textAlign, DEFAULT_TYPING_SETTINGS.textAlign),
     includeComments: Boolean(input.includeComments ?? DEFAULT_TYPING_SETTINGS.includeComments),
     skipLeadingIndentation: Boolean(input.skipLeadingIndentation ?? DEFAULT_TYPING_SETTINGS.skipLeadingIndentation),
+    autoIndent: Boolean(input.autoIndent ?? DEFAULT_TYPING_SETTINGS.autoIndent),
     trimTrailingWhitespace: Boolean(input.trimTrailingWhitespace ?? DEFAULT_TYPING_SETTINGS.trimTrailingWhitespace),
     autoSkipBlankLines: Boolean(input.autoSkipBlankLines ?? DEFAULT_TYPING_SETTINGS.autoSkipBlankLines),
+    autoCloseBrackets: Boolean(input.autoCloseBrackets ?? DEFAULT_TYPING_SETTINGS.autoCloseBrackets),
     showDebugOverlay: Boolean(input.showDebugOverlay ?? DEFAULT_TYPING_SETTINGS.showDebugOverlay),
+    showGhost: Boolean(input.showGhost ?? DEFAULT_TYPING_SETTINGS.showGhost),
+    idleThresholdSec: clampInt(coerceInt(input.idleThresholdSec, DEFAULT_TYPING_SETTINGS.idleThresholdSec), 0, 600),
   }
 }
@@ -0,0 +1,8 @@
+import type { FileProgress, FileProgressUpdate } from '../shared/types'
+
+export interface FileProgressStore {
+  /** Most recently practised first; one record per file path. */
+  list: () => Promise<FileProgress[]>
+  get: (filePath: string, contentHash: string) => Promise<FileProgress | null>
+  record: (update: FileProgressUpdate) => Promise<FileProgress>
+}
@@ -1,17 +1,13 @@
 import fs from 'node:fs/promises'
-import path from 'node:path'
 import type { Attempt } from '../shared/types'
 import type { AttemptRepo } from './attemptRepo'
+import { isRecord, writeJsonAtomic } from './jsonFile'
 
 type StoredAttemptsV1 = {
   schemaVersion: 1
   attempts: Attempt[]
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null
-}
-
 function coerceStored(json: unknown): StoredAttemptsV1 {
   if (Array.isArray(json)) return { schemaVersion: 1, attempts: json as Attempt[] }
   if (isRecord(json) && Array.isArray(json.attempts)) {
@@ -31,16 +27,6 @@ async function readJson(filePath: string): Promise<StoredAttemptsV1> {
   }
 }
 
-async function writeJsonAtomic(filePath: string, data: StoredAttemptsV1): Promise<void> {
-  await fs.mkdir(path.dirname(filePath), { recursive: true })
-
-  const tmp = `${filePath}.tmp`
-  const raw = JSON.stringify(data, null, 2)
-  await fs.writeFile(tmp, raw, 'utf8')
-  await fs.copyFile(tmp, filePath)
-  await fs.rm(tmp, { force: true })
-}
-
 export function createJsonAttemptRepo(filePath: string): AttemptRepo {
   return {
     async add(attempt) {
@@ -0,0 +1,16 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+export async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+  const tmp = `${filePath}.tmp`
+  const raw = JSON.stringify(data, null, 2)
+  await fs.writeFile(tmp, raw, 'utf8')
+  await fs.copyFile(tmp, filePath)
+  await fs.rm(tmp, { force: true })
+}
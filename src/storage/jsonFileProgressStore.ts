@@ -0,0 +1,61 @@
+import fs from 'node:fs/promises'
+import type { FileProgress } from '../shared/types'
+import { mergeFileProgress } from '../core/fileProgress'
+import type { FileProgressStore } from './fileProgressStore'
+import { isRecord, writeJsonAtomic } from './jsonFile'
+
+type StoredFileProgressV1 = {
+  schemaVersion: 1
+  files: FileProgress[]
+}
+
+function isFileProgress(value: unknown): value is FileProgress {
+  return isRecord(value)
+    && typeof value.filePath === 'string'
+    && typeof value.contentHash === 'string'
+    && Array.isArray(value.completed)
+}
+
+async function readFiles(filePath: string): Promise<FileProgress[]> {
+  try {
+    const json: unknown = JSON.parse(await fs.readFile(filePath, 'utf8'))
+    if (!isRecord(json) || !Array.isArray(json.files)) return []
+    return json.files.filter(isFileProgress)
+  } catch {
+    return []
+  }
+}
+
+export function createJsonFileProgressStore(filePath: string): FileProgressStore {
+  // Read-modify-write; serialize so two quick completions don't drop one.
+  let writes: Promise<unknown> = Promise.resolve()
+
+  return {
+    async list() {
+      await writes.catch(() => {})
+      const files = await readFiles(filePath)
+      return files.sort((a, b) => b.updatedAtMs - a.updatedAtMs)
+    },
+    async get(path, contentHash) {
+      await writes.catch(() => {})
+      const files = await readFiles(filePath)
+      return files.find((f) => f.filePath === path && f.contentHash === contentHash) ?? null
+    },
+    record(update) {
+      const next = writes.catch(() => {}).then(async () => {
+        const files = await readFiles(filePath)
+        // One record per path: a new content hash replaces the old version's progress.
+        const prev = files.find((f) => f.filePath === update.filePath) ?? null
+        const merged = mergeFileProgress(prev, update)
+        const stored: StoredFileProgressV1 = {
+          schemaVersion: 1,
+          files: [...files.filter((f) => f.filePath !== update.filePath), merged],
+        }
+        await writeJsonAtomic(filePath, stored)
+        return merged
+      })
+      writes = next
+      return next
+    },
+  }
+}
@@ -0,0 +1,65 @@
+import fs from 'node:fs/promises'
+import type { RecentFile } from '../shared/types'
+import { isRecord, writeJsonAtomic } from './jsonFile'
+import type { RecentFilesStore } from './recentFilesStore'
+
+type StoredRecentFilesV1 = {
+  schemaVersion: 1
+  files: RecentFile[]
+}
+
+function isRecentFile(value: unknown): value is RecentFile {
+  return isRecord(value)
+    && typeof value.filePath === 'string'
+    && typeof value.fileName === 'string'
+    && typeof value.lastOpenedAtMs === 'number'
+}
+
+async function readFiles(filePath: string): Promise<RecentFile[]> {
+  try {
+    const json: unknown = JSON.parse(await fs.readFile(filePath, 'utf8'))
+    if (!isRecord(json) || !Array.isArray(json.files)) return []
+    return json.files.filter(isRecentFile)
+  } catch {
+    return []
+  }
+}
+
+export function createJsonRecentFilesStore(filePath: string, limit: number): RecentFilesStore {
+  // Read-modify-write; serialize so a session save and an open don't race.
+  let writes: Promise<unknown> = Promise.resolve()
+  const update = (change: (files: RecentFile[]) => RecentFile[]) => {
+    const next = writes.catch(() => {}).then(async () => {
+      const stored: StoredRecentFilesV1 = { schemaVersion: 1, files: change(await readFiles(filePath)) }
+      await writeJsonAtomic(filePath, stored)
+    })
+    writes = next
+    return next
+  }
+
+  return {
+    async list() {
+      await writes.catch(() => {})
+      const files = await readFiles(filePath)
+      return files.sort((a, b) => b.lastOpenedAtMs - a.lastOpenedAtMs)
+    },
+    touch(entry) {
+      return update((files) => {
+        const prev = files.find((f) => f.filePath === entry.filePath)
+        const rest = files
+          .filter((f) => f.filePath !== entry.filePath)
+          .sort((a, b) => b.lastOpenedAtMs - a.lastOpenedAtMs)
+        return [{ ...entry, lastSegmentIndex: prev?.lastSegmentIndex }, ...rest].slice(0, limit)
+      })
+    },
+    setLastSegment(path, segmentIndex) {
+      return update((files) => files.map((f) => (f.filePath === path ? { ...f, lastSegmentIndex: segmentIndex } : f)))
+    },
+    remove(path) {
+      return update((files) => files.filter((f) => f.filePath !== path))
+    },
+    clear() {
+      return update(() => [])
+    },
+  }
+}
@@ -0,0 +1,47 @@
+import fs from 'node:fs/promises'
+import type { SavedSession } from '../shared/types'
+import { isRecord, writeJsonAtomic } from './jsonFile'
+import type { SessionStore } from './sessionStore'
+
+type StoredSessionV1 = {
+  schemaVersion: 1
+  session: SavedSession
+}
+
+function coerceSession(json: unknown): SavedSession | null {
+  if (!isRecord(json) || !isRecord(json.session)) return null
+  const session = json.session
+  if (typeof session.filePath !== 'string' || typeof session.fileName !== 'string') return null
+  if (typeof session.segmentIndex !== 'number' || !isRecord(session.settings)) return null
+  return session as SavedSession
+}
+
+export function createJsonSessionStore(filePath: string): SessionStore {
+  // Progress is saved every few seconds; serialize writes so they never share the temp file,
+  // and let a load see the latest one.
+  let writes: Promise<void> = Promise.resolve()
+  const enqueue = (write: () => Promise<void>) => {
+    const next = writes.then(write, write)
+    writes = next.catch(() => {})
+    return next
+  }
+
+  return {
+    async load() {
+      await writes
+      try {
+        const raw = await fs.readFile(filePath, 'utf8')
+        return coerceSession(JSON.parse(raw))
+      } catch {
+        return null
+      }
+    },
+    save(session) {
+      const stored: StoredSessionV1 = { schemaVersion: 1, session }
+      return enqueue(() => writeJsonAtomic(filePath, stored))
+    },
+    clear() {
+      return enqueue(() => fs.rm(filePath, { force: true }))
+    },
+  }
+}
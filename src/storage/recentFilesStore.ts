@@ -0,0 +1,11 @@
+import type { RecentFile } from '../shared/types'
+
+export interface RecentFilesStore {
+  /** Most recently opened first. */
+  list: () => Promise<RecentFile[]>
+  /** Moves the file to the top (keeping its last segment), dropping the oldest beyond the limit. */
+  touch: (entry: Omit<RecentFile, 'lastSegmentIndex'>) => Promise<void>
+  setLastSegment: (filePath: string, segmentIndex: number) => Promise<void>
+  remove: (filePath: string) => Promise<void>
+  clear: () => Promise<void>
+}
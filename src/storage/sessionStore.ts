@@ -0,0 +1,7 @@
+import type { SavedSession } from '../shared/types'
+
+export interface SessionStore {
+  load: () => Promise<SavedSession | null>
+  save: (session: SavedSession) => Promise<void>
+  clear: () => Promise<void>
+}
@@ -1,16 +1,19 @@
 /// <reference lib="webworker" />
-import { normalizeText, splitByLinesWithOffsets } from '../core/segmenter'
+import { normalizeText, splitByBlocksWithOffsets, splitByLinesWithOffsets } from '../core/segmenter'
 import { parseCommentRangesForFile } from '../core/commentRanges'
-import type { TextRange, TextSegment } from '../shared/types'
+import { computeSegmentDifficulty } from '../core/difficulty'
+import type { DiffHunk, SegmentStrategy, TextRange, TextSegment } from '../shared/types'
 
 type SegmentRequest = {
   id: string
   content: string
   fileName: string
   linesPerSegment: number
+  segmentStrategy: SegmentStrategy
   tabWidth: number
   maxSegmentChars: number
   includeComments: boolean
+  hunks?: DiffHunk[]
 }
 
 type SegmentResponse =
@@ -19,42 +22,67 @@ type SegmentResponse =
 
 const ctx: DedicatedWorkerGlobalScope = self as unknown as DedicatedWorkerGlobalScope
 
-ctx.onmessage = (event: MessageEvent<SegmentRequest>) => {
-  const { id, content, fileName, linesPerSegment, tabWidth, maxSegmentChars, includeComments } = event.data
-  try {
-    const normalized = normalizeText(content, tabWidth)
-    const globalCommentRanges = includeComments ? [] : parseCommentRangesForFile(normalized, fileName)
-    const segmentsWithOffsets = splitByLinesWithOffsets(normalized, linesPerSegment, 0, maxSegmentChars)
+type SegmentOptions = Pick<SegmentRequest, 'linesPerSegment' | 'segmentStrategy' | 'maxSegmentChars' | 'includeComments'>
 
-    let rangeIndex = 0
-    const segments: TextSegment[] = segmentsWithOffsets.map(({ startOffset, endOffset, ...seg }) => {
-      let commentRanges: TextRange[] | undefined
-      if (!includeComments && globalCommentRanges.length > 0) {
-        while (rangeIndex < globalCommentRanges.length && globalCommentRanges[rangeIndex].end <= startOffset) {
-          rangeIndex += 1
-        }
+function segmentText(normalized: string, fileName: string, options: SegmentOptions): TextSegment[] {
+  const { linesPerSegment, segmentStrategy, maxSegmentChars, includeComments } = options
+  const blocks = segmentStrategy === 'blocks'
+  const fileCommentRanges = blocks || !includeComments ? parseCommentRangesForFile(normalized, fileName) : []
+  const globalCommentRanges = includeComments ? [] : fileCommentRanges
+  const segmentsWithOffsets = blocks
+    ? splitByBlocksWithOffsets(normalized, linesPerSegment, 0, maxSegmentChars, fileCommentRanges)
+    : splitByLinesWithOffsets(normalized, linesPerSegment, 0, maxSegmentChars)
 
-        let j = rangeIndex
-        while (j < globalCommentRanges.length && globalCommentRanges[j].start < endOffset) {
-          const r = globalCommentRanges[j]
-          const s = Math.max(r.start, startOffset)
-          const e = Math.min(r.end, endOffset)
-          if (e > s) {
-            commentRanges ??= []
-            commentRanges.push({ start: s - startOffset, end: e - startOffset })
-          }
-          if (r.end <= endOffset) j += 1
-          else break
-        }
+  let rangeIndex = 0
+  return segmentsWithOffsets.map(({ startOffset, endOffset, ...seg }) => {
+    let commentRanges: TextRange[] | undefined
+    if (!includeComments && globalCommentRanges.length > 0) {
+      while (rangeIndex < globalCommentRanges.length && globalCommentRanges[rangeIndex].end <= startOffset) {
+        rangeIndex += 1
+      }
 
-        rangeIndex = j
+      let j = rangeIndex
+      while (j < globalCommentRanges.length && globalCommentRanges[j].start < endOffset) {
+        const r = globalCommentRanges[j]
+        const s = Math.max(r.start, startOffset)
+        const e = Math.min(r.end, endOffset)
+        if (e > s) {
+          commentRanges ??= []
+          commentRanges.push({ start: s - startOffset, end: e - startOffset })
+        }
+        if (r.end <= endOffset) j += 1
+        else break
       }
 
-      return {
+      rangeIndex = j
+    }
+
+    return {
+      ...seg,
+      commentRanges,
+      difficulty: computeSegmentDifficulty(seg.text, commentRanges),
+    }
+  })
+}
+
+ctx.onmessage = (event: MessageEvent<SegmentRequest>) => {
+  const { id, content, fileName, hunks, tabWidth, ...options } = event.data
+  try {
+    let segments: TextSegment[]
+    if (hunks) {
+      // Hunks are segmented separately so segments never span files and comments parse per language.
+      segments = hunks.flatMap((hunk) => segmentText(normalizeText(hunk.text, tabWidth), hunk.filePath, options).map((seg) => ({
         ...seg,
-        commentRanges,
-      }
-    })
+        startLine: seg.startLine + hunk.startLine - 1,
+        endLine: seg.endLine + hunk.startLine - 1,
+        fileName: hunk.filePath,
+      })))
+      segments.forEach((seg, index) => {
+        seg.index = index
+      })
+    } else {
+      segments = segmentText(normalizeText(content, tabWidth), fileName, options)
+    }
 
     const response: SegmentResponse = { id, segments }
     ctx.postMessage(response)